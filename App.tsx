@@ -1,13 +1,48 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import ThreeScene from './components/ThreeScene';
-import { generateVisualConfig } from './services/geminiService';
-import { VisualConfig, VisualizerMode, AudioData, GeometryType } from './types';
-import { Mic, Upload, Play, Pause, Wand2, Music2, Loader2, Shapes, ChevronLeft, ChevronRight, Activity } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import ThreeScene, { ThreeSceneHandle, SceneDisplay } from './components/ThreeScene';
+import { MODE_IDS } from './components/modes';
+import RecordControls from './components/RecordControls';
+import PresetPanel from './components/PresetPanel';
+import ExportPanel from './components/ExportPanel';
+import CuePanel from './components/CuePanel';
+import PromptHistoryBar from './components/PromptHistoryBar';
+import GeneratorSettingsPanel from './components/GeneratorSettingsPanel';
+import PlaylistPanel from './components/PlaylistPanel';
+import NowPlayingPanel from './components/NowPlayingPanel';
+import MidiPanel from './components/MidiPanel';
+import ControlPanel from './components/ControlPanel';
+import OutputPanel from './components/OutputPanel';
+import RemoteButton from './components/RemoteButton';
+import ShaderPanel from './components/ShaderPanel';
+import { GeneratorSettings, createConfigGenerator, loadGeneratorSettings, saveGeneratorSettings } from './services/configGenerator';
+import { PromptHistory, EMPTY_HISTORY, pushTurn, moveTo, conversationPrompts } from './services/promptHistory';
+import { AudioAnalyzer, ANALYSER_FFT_SIZE, ANALYSER_SMOOTHING, createAudioAnalyzer, createSilentAudioData } from './services/audioAnalyzer';
+import { StereoTap, createStereoTap } from './services/stereoTap';
+import { TrackPlayer, createTrackPlayer } from './services/trackPlayer';
+import { MidiBinding, MidiMessage, MidiTarget, createMidiMapper, learnBinding, removeBinding, applyMidiField, loadMidiBindings, saveMidiBindings } from './services/midiMapping';
+import { ControlField, applyLocks, randomizeFields, loadLockedFields, saveLockedFields } from './services/configLocks';
+import { shortcutFor, toggleFullscreen } from './services/shortcuts';
+import { MidiConnection, connectMidi, isMidiSupported } from './services/midiInput';
+import { connectRemote } from './services/remoteInput';
+import { interpretRemoteMessage } from './services/remoteControl';
+import { RemoteMessage } from './services/remoteProtocol';
+import { ShaderError, loadCustomShader, saveCustomShader } from './services/backgroundShaders';
+import { OutputChannel, OutputMessage, createOutputChannel, isOutputSupported, openOutputWindow, packAudioFrame } from './services/outputSync';
+import { Playlist, PlaylistTrack, EMPTY_PLAYLIST, addTracks, removeTrack, moveTrack, setTrackPreset, setShuffle, cycleRepeat, selectTrack, adjacentTrack, isAudioFile } from './services/playlist';
+import { VisualPreset, loadPresets, savePresets, createPreset, parsePresetFile, mergeImportedPresets, serializePresets } from './services/presetStore';
+import { Cue, loadCues, saveCues, createCue, insertCue, cueIndexAt, resolveCueConfig, parseCueFile, serializeCues } from './services/cueSheet';
+import { downloadBlob, downloadText } from './services/download';
+import { Recording, RECORDING_RESOLUTIONS, isRecordingSupported, startRecording } from './services/recorder';
+import { FrameSink, OFFLINE_DEFAULT_SEED, createDirectorySink, createZipSink, isDirectoryExportSupported, renderOffline } from './services/offlineRenderer';
+import { decodeConfig, readConfigFromLocation, writeConfigToLocation } from './services/configUrl';
+import { VisualConfig, VisualizerMode, AudioData, GeometryType, BackgroundStyle } from './types';
+import { Mic, Upload, Wand2, Music2, Loader2, Shapes, ChevronLeft, ChevronRight, Activity, AlertTriangle, Timer, Sparkles, GitBranch, WifiOff } from 'lucide-react';
 
 // Default initial state
 const INITIAL_CONFIG: VisualConfig = {
   mode: VisualizerMode.Ferrofluid, // Start with the new cool mode
   geometryType: GeometryType.Sphere,
+  background: BackgroundStyle.Aurora,
   primaryColor: "#00d4ff",
   secondaryColor: "#ff0055",
   backgroundColor: "#2a1b3d", 
@@ -15,38 +50,119 @@ const INITIAL_CONFIG: VisualConfig = {
   rotationSpeed: 0.5,
   sensitivity: 1.2,
   bloomIntensity: 1.2,
+  effects: [],
   description: "Initialize visuals..."
 };
 
+// Crossfade lengths offered in the overlay, in seconds
+const TRANSITION_OPTIONS = [0, 0.5, 1.5, 3, 6];
+const PARTICLE_COUNT_OPTIONS = [2500, 10000, 25000, 50000, 100000];
+// Overlap between playlist tracks, in seconds
+const CROSSFADE_OPTIONS = [0, 2, 4, 8];
+
 const App: React.FC = () => {
   // Application State
-  const [config, setConfig] = useState<VisualConfig>(INITIAL_CONFIG);
+  const [config, setConfig] = useState<VisualConfig>(() => readConfigFromLocation(INITIAL_CONFIG) ?? INITIAL_CONFIG);
   const [prompt, setPrompt] = useState<string>("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [sourceType, setSourceType] = useState<'mic' | 'file' | null>(null);
   const [audioName, setAudioName] = useState<string | null>(null);
+  const [lastPrompt, setLastPrompt] = useState<string>("");
+  const [promptHistory, setPromptHistory] = useState<PromptHistory>(EMPTY_HISTORY);
+  const [isRefining, setIsRefining] = useState(false); // Edit the current look instead of starting over
+  const [generatorSettings, setGeneratorSettings] = useState<GeneratorSettings>(loadGeneratorSettings);
+  const generator = useMemo(() => createConfigGenerator(generatorSettings), [generatorSettings]);
+  const [corrections, setCorrections] = useState<string[]>([]);
+  // Set when the offline interpreter stood in for the provider
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+  const [transitionDuration, setTransitionDuration] = useState<number>(1.5);
+  const [particleCount, setParticleCount] = useState<number>(PARTICLE_COUNT_OPTIONS[0]);
+  const [lockedFields, setLockedFields] = useState<ControlField[]>(loadLockedFields);
+  const [isControlPanelOpen, setIsControlPanelOpen] = useState(false);
+  const [isUiHidden, setIsUiHidden] = useState(false);
+  const [customShader, setCustomShader] = useState<string>(loadCustomShader);
+  const [shaderErrors, setShaderErrors] = useState<ShaderError[]>([]);
+
+  // Recording State
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSavingRecording, setIsSavingRecording] = useState(false);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [recordingResolution, setRecordingResolution] = useState(0);
+  const [recordingFps, setRecordingFps] = useState(30);
+  const recordingRef = useRef<Recording | null>(null);
+  const sceneRef = useRef<ThreeSceneHandle | null>(null);
+
+  // Offline Export State
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [presets, setPresets] = useState<VisualPreset[]>(() => loadPresets(INITIAL_CONFIG));
+  const presetsRef = useRef(presets);
+  presetsRef.current = presets;
+
+  // Playlist State
+  // The ref is the source of truth for audio callbacks; state mirrors it for rendering
+  const [playlist, setPlaylist] = useState<Playlist>(EMPTY_PLAYLIST);
+  const playlistRef = useRef<Playlist>(EMPTY_PLAYLIST);
+  const [crossfade, setCrossfade] = useState(0);
+  const crossfadeRef = useRef(0);
+  crossfadeRef.current = crossfade;
+
+  // Cue Sheet State
+  const [cues, setCues] = useState<Cue[]>(() => loadCues(INITIAL_CONFIG));
+  const [activeCueIndex, setActiveCueIndex] = useState(-1);
+  // Crossfade for the config change a cue or controller just made; cleared once applied
+  const [transitionOverride, setTransitionOverride] = useState<number | null>(null);
+  const activeCueIndexRef = useRef(-1);
+  // The look before the first cue fired, restored when seeking back before it
+  const cueBaseConfigRef = useRef<VisualConfig>(config);
+  const latestConfigRef = useRef<VisualConfig>(config);
+  latestConfigRef.current = config;
+
+  // MIDI State
+  const [midiBindings, setMidiBindings] = useState<MidiBinding[]>(loadMidiBindings);
+  const [midiLearning, setMidiLearning] = useState<MidiTarget | null>(null);
+  const [midiDevices, setMidiDevices] = useState<string[]>([]);
+  const [isMidiConnected, setIsMidiConnected] = useState(false);
+  const midiMapperRef = useRef(createMidiMapper());
+  const midiConnectionRef = useRef<MidiConnection | null>(null);
+
+  // Remote control bridge
+  const [isRemoteEnabled, setIsRemoteEnabled] = useState(false);
+  const [isRemoteConnected, setIsRemoteConnected] = useState(false);
+  const [ignoredRemoteAddress, setIgnoredRemoteAddress] = useState<string | null>(null); // Last message the app could not apply
+
+  // Output window
+  const [isOutputOpen, setIsOutputOpen] = useState(false);
+  const [showOutputPreview, setShowOutputPreview] = useState(true);
+  const outputChannelRef = useRef<OutputChannel | null>(null);
+  const isOutputOpenRef = useRef(false);
+  isOutputOpenRef.current = isOutputOpen;
 
   // Audio References
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceNodeRef = useRef<MediaStreamAudioSourceNode | MediaElementAudioSourceNode | null>(null);
+  const stereoTapRef = useRef<StereoTap | null>(null);
+  // Microphone source; files go through the track player
+  const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const trackPlayerRef = useRef<TrackPlayer | null>(null);
+  // Element of the track currently playing
   const audioElemRef = useRef<HTMLAudioElement | null>(null);
+  // The playing file itself, kept for offline export
+  const audioFileRef = useRef<File | null>(null);
+  // Tap of whatever source is active, fed into recordings
+  const recordDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
   
   // Data ref
-  const audioDataRef = useRef<AudioData>({
-    frequencyData: new Uint8Array(128),
-    overallAmplitude: 0,
-    bass: 0,
-    mid: 0,
-    treble: 0
-  });
+  const audioDataRef = useRef<AudioData>(createSilentAudioData());
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
 
   const requestRef = useRef<number>(0);
 
   // --- Manual Controls ---
   const cycleMode = (direction: 'left' | 'right') => {
-    const modes = Object.values(VisualizerMode);
+    const modes = MODE_IDS;
     const currentIndex = modes.indexOf(config.mode);
     let newIndex = direction === 'left' ? currentIndex - 1 : currentIndex + 1;
     
@@ -74,22 +190,34 @@ const App: React.FC = () => {
       const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
       audioContextRef.current = new AudioContext();
       analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 512;
-      analyserRef.current.smoothingTimeConstant = 0.8;
+      analyserRef.current.fftSize = ANALYSER_FFT_SIZE;
+      analyserRef.current.smoothingTimeConstant = ANALYSER_SMOOTHING;
+      stereoTapRef.current = createStereoTap(audioContextRef.current, ANALYSER_FFT_SIZE, ANALYSER_SMOOTHING);
+      recordDestinationRef.current = audioContextRef.current.createMediaStreamDestination();
+      analyzerRef.current = createAudioAnalyzer({
+        sampleRate: audioContextRef.current.sampleRate,
+        fftSize: analyserRef.current.fftSize
+      });
+
+      // Files are heard; the microphone only feeds the analysers
+      const player = createTrackPlayer(audioContextRef.current);
+      player.output.connect(analyserRef.current);
+      player.output.connect(stereoTapRef.current.input);
+      player.output.connect(recordDestinationRef.current);
+      player.output.connect(audioContextRef.current.destination);
+      trackPlayerRef.current = player;
     }
     return { ctx: audioContextRef.current, analyser: analyserRef.current };
   };
 
   const cleanupAudio = () => {
-    if (audioElemRef.current) {
-      audioElemRef.current.pause();
-      audioElemRef.current.src = "";
-      audioElemRef.current.load();
-    }
+    trackPlayerRef.current?.stop();
+    audioElemRef.current = null;
     if (sourceNodeRef.current) {
       sourceNodeRef.current.disconnect();
       sourceNodeRef.current = null;
     }
+    analyzerRef.current?.reset();
     setIsPlaying(false);
   };
 
@@ -106,6 +234,8 @@ const App: React.FC = () => {
       
       const source = ctx.createMediaStreamSource(stream);
       source.connect(analyser);
+      if (stereoTapRef.current) source.connect(stereoTapRef.current.input);
+      if (recordDestinationRef.current) source.connect(recordDestinationRef.current);
       
       sourceNodeRef.current = source;
       setSourceType('mic');
@@ -118,47 +248,126 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    cleanupAudio();
-
-    const newAudio = new Audio(URL.createObjectURL(file));
-    audioElemRef.current = newAudio;
-    
-    setAudioName(file.name);
-    setupFileSource();
-
-    e.target.value = '';
+  const updatePlaylist = (update: (prev: Playlist) => Playlist) => {
+    playlistRef.current = update(playlistRef.current);
+    setPlaylist(playlistRef.current);
   };
 
-  const setupFileSource = async () => {
-    if (!audioElemRef.current) return;
-    
-    const { ctx, analyser } = initAudioContext();
-    if (!ctx || !analyser) return;
+  // Loads a playlist track and starts it, crossfading from the one playing
+  const playTrack = async (track: PlaylistTrack, fadeSeconds = 0) => {
+    const { ctx } = initAudioContext();
+    const player = trackPlayerRef.current;
+    if (!ctx || !player) return;
 
     if (ctx.state === 'suspended') await ctx.resume();
+    if (sourceNodeRef.current) {
+      sourceNodeRef.current.disconnect();
+      sourceNodeRef.current = null;
+    }
+    if (fadeSeconds === 0) analyzerRef.current?.reset();
+
+    updatePlaylist(prev => selectTrack(prev, track.id));
+    audioFileRef.current = track.file;
+    setAudioName(track.name);
+    setSourceType('file');
+
+    const preset = track.presetId ? presetsRef.current.find(p => p.id === track.presetId) : null;
+    if (preset) handleLoadPreset(preset);
 
     try {
-      const source = ctx.createMediaElementSource(audioElemRef.current);
-      source.connect(analyser);
-      analyser.connect(ctx.destination);
-      sourceNodeRef.current = source;
-      
-      setSourceType('file');
-      
-      await audioElemRef.current.play();
+      const element = await player.start(track.file, fadeSeconds);
+      audioElemRef.current = element;
+      element.onended = () => handleTrackEnded(element);
+      // With a crossfade the next track starts before this one ends
+      element.ontimeupdate = () => {
+        const fade = crossfadeRef.current;
+        if (fade <= 0 || element.duration - element.currentTime > fade) return;
+        element.ontimeupdate = null;
+        const next = adjacentTrack(playlistRef.current, 1, true);
+        if (next) playTrack(next, fade);
+      };
       setIsPlaying(true);
       startAnalysisLoop();
     } catch (e) {
       console.error("Error setting up file source:", e);
     }
+  };
+
+  const handleTrackEnded = (element: HTMLAudioElement) => {
+    // A crossfade already moved on to another element
+    if (element !== audioElemRef.current) return;
+    const next = adjacentTrack(playlistRef.current, 1, true);
+    if (next) playTrack(next);
+    else setIsPlaying(false);
+  };
+
+  const handlePreviousTrack = () => {
+    const audio = audioElemRef.current;
+    // Like most players: restart the track unless it only just began
+    if (audio && audio.currentTime > 3) {
+      audio.currentTime = 0;
+      return;
+    }
+    const previous = adjacentTrack(playlistRef.current, -1);
+    if (previous) playTrack(previous);
+  };
+
+  const handleNextTrack = () => {
+    const next = adjacentTrack(playlistRef.current, 1);
+    if (next) playTrack(next, crossfadeRef.current);
+  };
+
+  const handlePlayTrack = (id: string) => {
+    const track = playlistRef.current.tracks.find(t => t.id === id);
+    if (track) playTrack(track, crossfadeRef.current);
+  };
+
+  const handleRemoveTrack = (id: string) => {
+    if (id === playlistRef.current.current && audioElemRef.current) {
+      cleanupAudio();
+      setSourceType(null);
+    }
+    updatePlaylist(prev => removeTrack(prev, id));
+  };
+
+  const addFiles = (files: File[]) => {
+    const before = playlistRef.current.tracks.length;
+    updatePlaylist(prev => addTracks(prev, files));
+    // Start right away unless a track is already loaded
+    const first = playlistRef.current.tracks[before];
+    if (first && !trackPlayerRef.current?.current()) playTrack(first);
+  };
 
-    audioElemRef.current.onended = () => setIsPlaying(false);
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    if (files.length) addFiles(files);
+    e.target.value = '';
   };
 
+  const getAudioElement = useCallback(() => audioElemRef.current, []);
+
+  // Drop audio files anywhere on the window to queue them
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      const files = Array.from(e.dataTransfer.files).filter(isAudioFile);
+      if (files.length) addFilesRef.current(files);
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
   const togglePlayPause = () => {
     if (sourceType === 'file' && audioElemRef.current) {
       if (isPlaying) {
@@ -178,36 +387,22 @@ const App: React.FC = () => {
 
   // --- Audio Analysis Loop ---
   const startAnalysisLoop = useCallback(() => {
+    if (requestRef.current) cancelAnimationFrame(requestRef.current);
+
     const analyse = () => {
-      if (!analyserRef.current) return;
+      if (!analyserRef.current || !analyzerRef.current) return;
 
-      const bufferLength = analyserRef.current.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
+      const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
       analyserRef.current.getByteFrequencyData(dataArray);
 
-      let sum = 0;
-      let bassSum = 0;
-      let midSum = 0;
-      let trebleSum = 0;
-
-      const bassLimit = Math.floor(bufferLength * 0.1); 
-      const midLimit = Math.floor(bufferLength * 0.5);
+      const waveform = new Uint8Array(analyserRef.current.fftSize);
+      analyserRef.current.getByteTimeDomainData(waveform);
 
-      for (let i = 0; i < bufferLength; i++) {
-        sum += dataArray[i];
-        if (i < bassLimit) bassSum += dataArray[i];
-        else if (i < midLimit) midSum += dataArray[i];
-        else trebleSum += dataArray[i];
+      audioDataRef.current = analyzerRef.current.analyze(dataArray, performance.now(), waveform, stereoTapRef.current?.read());
+      if (isOutputOpenRef.current) {
+        outputChannelRef.current?.post({ type: 'audio', frame: packAudioFrame(audioDataRef.current) });
       }
 
-      audioDataRef.current = {
-        frequencyData: dataArray,
-        overallAmplitude: sum / bufferLength,
-        bass: bassSum / bassLimit,
-        mid: midSum / (midLimit - bassLimit),
-        treble: trebleSum / (bufferLength - midLimit)
-      };
-
       requestRef.current = requestAnimationFrame(analyse);
     };
     requestRef.current = requestAnimationFrame(analyse);
@@ -219,22 +414,487 @@ const App: React.FC = () => {
     };
   }, []);
 
-  const handleGenerate = async () => {
-    if (!prompt.trim()) return;
+  // Shared by the prompt box and remote /ferro/prompt messages
+  const generateFromPrompt = async (text: string) => {
     setIsGenerating(true);
-    const configResult = await generateVisualConfig(prompt);
-    setConfig(configResult);
+    const kind = isRefining ? 'refine' : 'generate';
+    const { config: configResult, corrections: configCorrections, fallbackReason: reason } = isRefining
+      ? await generator.refine(config, conversationPrompts(promptHistory), text)
+      : await generator.generate(text);
+    // Locked fields keep whatever is on screen now
+    const nextConfig = applyLocks(configResult, latestConfigRef.current, lockedFields);
+    setConfig(nextConfig);
+    setCorrections(configCorrections);
+    setFallbackReason(reason);
+    setLastPrompt(text);
+    setPromptHistory(prev => {
+      const base = prev.turns.length ? prev : pushTurn(prev, 'start', '', config);
+      return pushTurn(base, kind, text, nextConfig);
+    });
+    // Follow-ups usually build on what was just made
+    setIsRefining(true);
     setIsGenerating(false);
   };
 
+  const handleGenerate = async () => {
+    if (!prompt.trim()) return;
+    await generateFromPrompt(prompt);
+    setPrompt("");
+  };
+
+  const showHistoryTurn = (index: number) => {
+    const next = moveTo(promptHistory, index);
+    const turn = next.turns[next.index];
+    if (!turn) return;
+    setPromptHistory(next);
+    setConfig({ ...turn.config });
+    setLastPrompt(turn.prompt);
+    setCorrections([]);
+    setFallbackReason(null);
+  };
+
+  // Saved on user changes only, so the defaults are never frozen into storage
+  const handleGeneratorSettingsChange = (settings: GeneratorSettings) => {
+    setGeneratorSettings(settings);
+    saveGeneratorSettings(settings);
+  };
+
+  // --- Recording ---
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = window.setInterval(() => {
+      if (recordingRef.current) setRecordingElapsed(performance.now() - recordingRef.current.startedAt);
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [isRecording]);
+
+  const handleStartRecording = () => {
+    const canvas = sceneRef.current?.getCanvas();
+    if (!canvas) return;
+    if (!isRecordingSupported()) {
+      alert("Recording is not supported in this browser.");
+      return;
+    }
+
+    // The output bus feeds the recording even before a source is loaded, so
+    // a file or microphone picked mid-take is still heard
+    initAudioContext();
+
+    const resolution = RECORDING_RESOLUTIONS[recordingResolution];
+    if (resolution.width !== null) {
+      sceneRef.current?.setRenderSize({ width: resolution.width, height: resolution.height });
+    }
+
+    try {
+      recordingRef.current = startRecording({
+        canvas,
+        audioStream: recordDestinationRef.current?.stream,
+        fps: recordingFps
+      });
+      setRecordingElapsed(0);
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Error starting recording:", err);
+      sceneRef.current?.setRenderSize(null);
+      alert("Could not start recording.");
+    }
+  };
+
+  const handleStopRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setIsRecording(false);
+    setIsSavingRecording(true);
+    try {
+      const blob = await recording.stop();
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadBlob(blob, `ferro-${stamp}.webm`);
+    } catch (err) {
+      console.error("Error saving recording:", err);
+      alert("Recording failed.");
+    } finally {
+      sceneRef.current?.setRenderSize(null);
+      setIsSavingRecording(false);
+    }
+  };
+
+  // --- Offline Export ---
+  const handleStartExport = async () => {
+    const file = audioFileRef.current;
+    const scene = sceneRef.current;
+    if (!file || !scene) return;
+
+    const resolution = RECORDING_RESOLUTIONS[recordingResolution];
+    const width = resolution.width ?? window.innerWidth;
+    const height = resolution.height ?? window.innerHeight;
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+
+    let sink: FrameSink;
+    try {
+      sink = isDirectoryExportSupported()
+        ? await createDirectorySink()
+        : createZipSink(`${baseName}-${recordingFps}fps.zip`);
+    } catch (err) {
+      // Closing the folder picker is not an error worth reporting
+      if ((err as Error).name !== 'AbortError') console.error("Error opening export folder:", err);
+      return;
+    }
+
+    if (isPlaying) togglePlayPause();
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress(0);
+    setIsExporting(true);
+    scene.beginOffline({ width, height, seed: OFFLINE_DEFAULT_SEED });
+    try {
+      await renderOffline({
+        file,
+        fps: recordingFps,
+        renderFrame: scene.renderOfflineFrame,
+        sink,
+        signal: controller.signal,
+        onProgress: (done, total) => setExportProgress(done / total)
+      });
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        console.error("Error exporting frames:", err);
+        alert("Frame export failed.");
+      }
+    } finally {
+      scene.endOffline();
+      exportAbortRef.current = null;
+      setIsExporting(false);
+    }
+  };
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  // --- Cue Sheet ---
+  useEffect(() => {
+    saveCues(cues);
+  }, [cues]);
+
+  useEffect(() => {
+    if (transitionOverride !== null) setTransitionOverride(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config]);
+
+  // Follows the playhead of the uploaded track. Reaching the next cue fades
+  // with the cue's own transition; any jump (seek, loop) cuts straight to the
+  // state the cues would have built up by then.
+  useEffect(() => {
+    if (sourceType !== 'file' || cues.length === 0) return;
+
+    let frame = 0;
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      // Read every frame: the element changes with each playlist track
+      const audio = audioElemRef.current;
+      if (!audio) return;
+      const index = cueIndexAt(cues, audio.currentTime);
+      const previous = activeCueIndexRef.current;
+      if (index !== previous) {
+        if (previous === -1) cueBaseConfigRef.current = latestConfigRef.current;
+        activeCueIndexRef.current = index;
+        setActiveCueIndex(index);
+        setTransitionOverride(index === previous + 1 ? cues[index].transition : 0);
+        setConfig(resolveCueConfig(cueBaseConfigRef.current, cues, index));
+      }
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [sourceType, cues]);
+
+  // After an edit the old index can point at a different cue. Re-derive it
+  // from the playhead so the loop above does not skip or replay a switch.
+  const syncActiveCue = (next: Cue[]) => {
+    const audio = audioElemRef.current;
+    activeCueIndexRef.current = audio ? cueIndexAt(next, audio.currentTime) : -1;
+    setActiveCueIndex(activeCueIndexRef.current);
+  };
+
+  const handleAddCue = () => {
+    const audio = audioElemRef.current;
+    if (!audio) return;
+    const cue = createCue(audio.currentTime, config, transitionDuration);
+    // Adding a cue should not re-trigger the one just created
+    if (activeCueIndexRef.current === -1) cueBaseConfigRef.current = config;
+    const next = insertCue(cues, cue);
+    syncActiveCue(next);
+    setCues(next);
+  };
+
+  const handleSeekToCue = (time: number) => {
+    if (audioElemRef.current) audioElemRef.current.currentTime = time;
+  };
+
+  const handleCueTransitionChange = (id: string, transition: number) => {
+    setCues(prev => prev.map(c => (c.id === id ? { ...c, transition } : c)));
+  };
+
+  const handleDeleteCue = (id: string) => {
+    const next = cues.filter(c => c.id !== id);
+    syncActiveCue(next);
+    setCues(next);
+  };
+
+  const handleImportCues = async (file: File) => {
+    try {
+      setCues(parseCueFile(await file.text(), INITIAL_CONFIG));
+      activeCueIndexRef.current = -1;
+      setActiveCueIndex(-1);
+    } catch (err) {
+      console.error("Error importing cues:", err);
+      alert(`Could not import cues: ${(err as Error).message}`);
+    }
+  };
+
+  const handleExportCues = () => {
+    downloadText(serializeCues(cues), 'ferro-cues.json');
+  };
+
+  // --- Live Controls ---
+  useEffect(() => {
+    saveLockedFields(lockedFields);
+  }, [lockedFields]);
+
+  const handleControlChange = (patch: Partial<VisualConfig>, instant: boolean) => {
+    if (instant) setTransitionOverride(0);
+    setConfig(prev => ({ ...prev, ...patch }));
+  };
+
+  // --- Shader Editor ---
+  useEffect(() => {
+    saveCustomShader(customShader);
+  }, [customShader]);
+
+  const handleShaderChange = (source: string) => {
+    setCustomShader(source);
+    // Editing is meant to be watched live
+    if (config.background !== BackgroundStyle.Custom) handleControlChange({ background: BackgroundStyle.Custom }, true);
+  };
+
+  const handleToggleLock = (field: ControlField) => {
+    setLockedFields(prev => (prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]));
+  };
+
+  const handleRandomize = (fields: ControlField[]) => {
+    setConfig(prev => randomizeFields(prev, fields));
+  };
+
+  const handleShortcut = (e: KeyboardEvent) => {
+    const action = shortcutFor(e);
+    if (!action) return;
+    e.preventDefault();
+    if (action === 'nextMode') cycleMode('right');
+    else if (action === 'previousMode') cycleMode('left');
+    else if (action === 'nextGeometry') cycleGeometry('right');
+    else if (action === 'previousGeometry') cycleGeometry('left');
+    else if (action === 'toggleUi') setIsUiHidden(hidden => !hidden);
+    else if (action === 'toggleControls') setIsControlPanelOpen(open => !open);
+    else toggleFullscreen().catch(err => console.error("Error toggling fullscreen:", err));
+  };
+  const shortcutHandlerRef = useRef(handleShortcut);
+  shortcutHandlerRef.current = handleShortcut;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- MIDI ---
+  useEffect(() => {
+    saveMidiBindings(midiBindings);
+  }, [midiBindings]);
+
+  useEffect(() => {
+    return () => midiConnectionRef.current?.close();
+  }, []);
+
+  const handleMidiMessage = (message: MidiMessage) => {
+    if (midiLearning) {
+      const next = learnBinding(midiBindings, message, midiLearning);
+      if (next !== midiBindings) {
+        setMidiBindings(next);
+        setMidiLearning(null);
+      }
+      return;
+    }
+    for (const effect of midiMapperRef.current.handle(midiBindings, message)) {
+      if (effect.kind === 'field') {
+        // Knobs answer immediately instead of crossfading
+        setTransitionOverride(0);
+        setConfig(prev => applyMidiField(prev, effect.field, effect.value));
+      } else if (effect.kind === 'preset') {
+        const preset = presets.find(p => p.id === effect.presetId);
+        if (preset) handleLoadPreset(preset);
+      } else if (effect.action === 'nextMode') {
+        cycleMode('right');
+      } else if (effect.action === 'previousMode') {
+        cycleMode('left');
+      } else if (effect.action === 'nextGeometry') {
+        cycleGeometry('right');
+      } else {
+        cycleGeometry('left');
+      }
+    }
+  };
+  // MIDI callbacks outlive renders; always dispatch to the latest handler
+  const midiHandlerRef = useRef(handleMidiMessage);
+  midiHandlerRef.current = handleMidiMessage;
+
+  const handleConnectMidi = async () => {
+    try {
+      midiConnectionRef.current = await connectMidi((message) => midiHandlerRef.current(message), setMidiDevices);
+      setIsMidiConnected(true);
+    } catch (err) {
+      console.error("Error accessing MIDI devices:", err);
+      alert("Could not access MIDI devices. Please check permissions.");
+    }
+  };
+
+  // --- Remote Control ---
+  const handleRemoteMessage = (message: RemoteMessage) => {
+    const effect = interpretRemoteMessage(message);
+    if (!effect) {
+      setIgnoredRemoteAddress(message.address);
+      return;
+    }
+    if (effect.kind === 'prompt') {
+      if (!isGenerating) generateFromPrompt(effect.prompt);
+      return;
+    }
+    handleControlChange(effect.patch, effect.instant);
+  };
+  // The socket outlives renders; always dispatch to the latest handler
+  const remoteHandlerRef = useRef(handleRemoteMessage);
+  remoteHandlerRef.current = handleRemoteMessage;
+
+  useEffect(() => {
+    if (!isRemoteEnabled) return;
+    const connection = connectRemote((message) => remoteHandlerRef.current(message), setIsRemoteConnected);
+    return () => {
+      connection.close();
+      setIsRemoteConnected(false);
+      setIgnoredRemoteAddress(null);
+    };
+  }, [isRemoteEnabled]);
+
+  // --- Output Window ---
+  const sceneTransition = transitionOverride ?? transitionDuration;
+
+  const postOutputState = () => {
+    outputChannelRef.current?.post({ type: 'state', state: { config, transitionDuration: sceneTransition, particleCount, customShader } });
+  };
+
+  const handleOutputMessage = (message: OutputMessage) => {
+    if (message.type === 'hello') {
+      setIsOutputOpen(true);
+      postOutputState();
+    } else if (message.type === 'bye') {
+      setIsOutputOpen(false);
+    }
+  };
+  const outputHandlerRef = useRef(handleOutputMessage);
+  outputHandlerRef.current = handleOutputMessage;
+
+  useEffect(() => {
+    if (!isOutputSupported()) return;
+    const channel = createOutputChannel((message) => outputHandlerRef.current(message));
+    outputChannelRef.current = channel;
+    // An output window left open across a reload of this one answers with hello
+    channel.post({ type: 'ping' });
+    return () => {
+      channel.close();
+      outputChannelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isOutputOpen) postOutputState();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOutputOpen, config, sceneTransition, particleCount, customShader]);
+
+  const handleOpenOutput = () => {
+    // The new window says hello once it is running
+    if (!openOutputWindow()) alert("The output window was blocked. Please allow pop-ups for this page.");
+  };
+
+  const handleCloseOutput = () => {
+    outputChannelRef.current?.post({ type: 'close' });
+    setIsOutputOpen(false);
+  };
+
+  // Recordings capture this window's canvas, so it keeps rendering meanwhile
+  const sceneDisplay: SceneDisplay = !isOutputOpen ? 'full' : showOutputPreview || isRecording ? 'preview' : 'hidden';
+
+  // --- Shareable URL ---
+  useEffect(() => {
+    writeConfigToLocation(config);
+  }, [config]);
+
+  useEffect(() => {
+    // Pasting a shared link into an open tab only changes the hash
+    const handleHashChange = () => {
+      const shared = decodeConfig(window.location.hash, INITIAL_CONFIG);
+      if (shared) setConfig(shared);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // --- Presets ---
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  const handleSavePreset = (name: string) => {
+    setPresets(prev => [...prev, createPreset(name, lastPrompt, config)]);
+  };
+
+  const handleLoadPreset = (preset: VisualPreset) => {
+    setConfig({ ...preset.config });
+    // A preset starts a new conversation; the previous look stays undoable
+    setPromptHistory(prev => pushTurn(prev.turns.length ? prev : pushTurn(prev, 'start', '', latestConfigRef.current), 'start', preset.name, preset.config));
+    setLastPrompt(preset.prompt);
+    setCorrections([]);
+    setFallbackReason(null);
+  };
+
+  const handleRenamePreset = (id: string, name: string) => {
+    setPresets(prev => prev.map(p => (p.id === id ? { ...p, name } : p)));
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text(), INITIAL_CONFIG);
+      setPresets(prev => mergeImportedPresets(prev, imported));
+    } catch (err) {
+      console.error("Error importing presets:", err);
+      alert(`Could not import presets: ${(err as Error).message}`);
+    }
+  };
+
+  const handleExportPresets = () => {
+    downloadText(serializePresets(presets), 'ferro-presets.json');
+  };
+
   return (
     <div className="relative w-full h-screen overflow-hidden selection:bg-cyan-500 selection:text-black">
       
       {/* 3D Visualizer Background */}
-      <ThreeScene config={config} audioDataRef={audioDataRef} />
+      <ThreeScene ref={sceneRef} config={config} audioDataRef={audioDataRef} transitionDuration={sceneTransition} particleCount={particleCount} display={sceneDisplay} customShader={customShader} onShaderErrors={setShaderErrors} />
 
       {/* UI Overlay */}
-      <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-6 z-10">
+      <div className={`absolute inset-0 pointer-events-none flex flex-col justify-between p-6 z-10 transition-opacity duration-300 ${isUiHidden ? 'opacity-0 invisible' : 'opacity-100'}`}>
         
         {/* Header */}
         <div className="pointer-events-auto flex justify-between items-start">
@@ -245,9 +905,96 @@ const App: React.FC = () => {
             <p className="text-xs text-gray-200 mt-1 tracking-widest uppercase opacity-80 drop-shadow-md">
               Generative Audio Visualizer
             </p>
+            <div className="mt-4 flex gap-2">
+              <PresetPanel
+                presets={presets}
+                currentConfig={config}
+                onSave={handleSavePreset}
+                onLoad={handleLoadPreset}
+                onRename={handleRenamePreset}
+                onDelete={handleDeletePreset}
+                onImport={handleImportPresets}
+                onExport={handleExportPresets}
+              />
+              <CuePanel
+                cues={cues}
+                activeIndex={activeCueIndex}
+                canAddCue={sourceType === 'file'}
+                transitionOptions={TRANSITION_OPTIONS}
+                onAdd={handleAddCue}
+                onSeek={handleSeekToCue}
+                onTransitionChange={handleCueTransitionChange}
+                onDelete={handleDeleteCue}
+                onImport={handleImportCues}
+                onExport={handleExportCues}
+              />
+              <PlaylistPanel
+                tracks={playlist.tracks}
+                currentId={playlist.current}
+                presets={presets}
+                crossfade={crossfade}
+                crossfadeOptions={CROSSFADE_OPTIONS}
+                onAdd={addFiles}
+                onPlay={handlePlayTrack}
+                onMove={(from, to) => updatePlaylist(prev => moveTrack(prev, from, to))}
+                onRemove={handleRemoveTrack}
+                onPresetChange={(id, presetId) => updatePlaylist(prev => setTrackPreset(prev, id, presetId))}
+                onCrossfadeChange={setCrossfade}
+              />
+              <MidiPanel
+                isSupported={isMidiSupported()}
+                isConnected={isMidiConnected}
+                devices={midiDevices}
+                bindings={midiBindings}
+                presets={presets}
+                learning={midiLearning}
+                onConnect={handleConnectMidi}
+                onLearn={setMidiLearning}
+                onClear={(target) => setMidiBindings(prev => removeBinding(prev, target))}
+              />
+              <ShaderPanel
+                source={customShader}
+                errors={shaderErrors}
+                isActive={config.background === BackgroundStyle.Custom}
+                onChange={handleShaderChange}
+                onActivate={() => handleControlChange({ background: BackgroundStyle.Custom }, false)}
+              />
+              <RemoteButton
+                isEnabled={isRemoteEnabled}
+                isConnected={isRemoteConnected}
+                ignoredAddress={ignoredRemoteAddress}
+                onToggle={() => setIsRemoteEnabled(!isRemoteEnabled)}
+              />
+            </div>
           </div>
 
           <div className="flex gap-2">
+             <OutputPanel
+               isSupported={isOutputSupported()}
+               isOpen={isOutputOpen}
+               showPreview={showOutputPreview}
+               onOpen={handleOpenOutput}
+               onClose={handleCloseOutput}
+               onTogglePreview={() => setShowOutputPreview(!showOutputPreview)}
+             />
+             <ExportPanel
+               canExport={sourceType === 'file' && !isRecording}
+               isExporting={isExporting}
+               progress={exportProgress}
+               onStart={handleStartExport}
+               onCancel={handleCancelExport}
+             />
+             <RecordControls
+               isRecording={isRecording}
+               isSaving={isSavingRecording}
+               elapsedMs={recordingElapsed}
+               resolutionIndex={recordingResolution}
+               fps={recordingFps}
+               onResolutionChange={setRecordingResolution}
+               onFpsChange={setRecordingFps}
+               onStart={handleStartRecording}
+               onStop={handleStopRecording}
+             />
              {!sourceType ? (
                 <div className="flex gap-2">
                    <button 
@@ -257,31 +1004,48 @@ const App: React.FC = () => {
                     <Mic className="w-4 h-4" /> Use Mic
                   </button>
                   <label className="cursor-pointer flex items-center gap-2 px-4 py-2 bg-black/40 backdrop-blur-md border border-white/10 hover:border-cyan-500 rounded-lg text-white transition-all text-sm font-medium hover:shadow-[0_0_15px_rgba(6,182,212,0.5)]">
-                    <Upload className="w-4 h-4" /> Upload MP3
-                    <input type="file" accept="audio/*" onChange={handleFileUpload} className="hidden" />
+                    <Upload className="w-4 h-4" /> Upload Audio
+                    <input type="file" accept="audio/*" multiple onChange={handleFileUpload} className="hidden" />
                   </label>
                 </div>
              ) : (
-                <div className="flex items-center gap-3 bg-black/60 backdrop-blur-md px-4 py-2 rounded-lg border border-white/10 shadow-lg">
-                  <div className="flex flex-col">
-                    <span className="text-[10px] text-gray-300 uppercase tracking-wider">Now Playing</span>
-                    <span className="text-sm font-semibold max-w-[150px] truncate">{audioName || "Unknown Source"}</span>
-                  </div>
-                  <div className="h-8 w-[1px] bg-white/20 mx-1"></div>
-                  <button onClick={togglePlayPause} className="p-2 hover:bg-white/10 rounded-full transition-colors">
-                    {isPlaying ? <Pause className="w-5 h-5 text-cyan-400" /> : <Play className="w-5 h-5 text-white" />}
-                  </button>
-                  <button onClick={() => {
+                <NowPlayingPanel
+                  name={audioName}
+                  sourceType={sourceType}
+                  isPlaying={isPlaying}
+                  getAudio={getAudioElement}
+                  shuffle={playlist.shuffle}
+                  repeat={playlist.repeat}
+                  onTogglePlay={togglePlayPause}
+                  onPrevious={handlePreviousTrack}
+                  onNext={handleNextTrack}
+                  onSeek={(time) => {
+                    if (audioElemRef.current) audioElemRef.current.currentTime = time;
+                  }}
+                  onToggleShuffle={() => updatePlaylist(prev => setShuffle(prev, !prev.shuffle))}
+                  onCycleRepeat={() => updatePlaylist(cycleRepeat)}
+                  onChangeSource={() => {
                     cleanupAudio();
                     setSourceType(null);
-                  }} className="text-xs text-gray-400 hover:text-white underline ml-2">
-                    Change Source
-                  </button>
-                </div>
+                  }}
+                />
              )}
           </div>
         </div>
 
+        {/* Live Controls */}
+        <div className="pointer-events-auto absolute right-6 top-28 flex justify-end">
+          <ControlPanel
+            isOpen={isControlPanelOpen}
+            config={config}
+            locked={lockedFields}
+            onToggle={() => setIsControlPanelOpen(!isControlPanelOpen)}
+            onChange={handleControlChange}
+            onToggleLock={handleToggleLock}
+            onRandomize={handleRandomize}
+          />
+        </div>
+
         {/* Center Prompt Area (Bottom) */}
         <div className="pointer-events-auto w-full max-w-2xl mx-auto mb-8">
            
@@ -291,6 +1055,42 @@ const App: React.FC = () => {
                  <div className="text-[10px] text-gray-200 uppercase tracking-widest mb-1 shadow-black drop-shadow-md font-semibold">Config</div>
                  
                  <div className="flex items-center gap-4 justify-end">
+
+                    {/* Particle Count */}
+                    <div className="flex items-center gap-1.5 bg-black/30 backdrop-blur-sm rounded-lg border border-white/5 px-2 py-1 hover:border-white/20 transition-colors">
+                      <Sparkles className="w-3 h-3 text-gray-300" />
+                      <select
+                        value={particleCount}
+                        onChange={(e) => setParticleCount(Number(e.target.value))}
+                        title="Particle count"
+                        className="bg-transparent text-xs font-mono text-gray-200 outline-none cursor-pointer"
+                      >
+                        {PARTICLE_COUNT_OPTIONS.map(count => (
+                          <option key={count} value={count} className="bg-black">
+                            {count >= 1000 ? `${count / 1000}K` : count}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {/* Transition Length */}
+                    <div className="flex items-center gap-1.5 bg-black/30 backdrop-blur-sm rounded-lg border border-white/5 px-2 py-1 hover:border-white/20 transition-colors">
+                      <Timer className="w-3 h-3 text-gray-300" />
+                      <select
+                        value={transitionDuration}
+                        onChange={(e) => setTransitionDuration(Number(e.target.value))}
+                        title="Crossfade length"
+                        className="bg-transparent text-xs font-mono text-gray-200 outline-none cursor-pointer"
+                      >
+                        {TRANSITION_OPTIONS.map(seconds => (
+                          <option key={seconds} value={seconds} className="bg-black">
+                            {seconds === 0 ? 'CUT' : `${seconds}s`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="w-[1px] h-3 bg-white/20"></div>
                     
                     {/* Geometry Switcher */}
                     <div className="flex items-center gap-1 bg-black/30 backdrop-blur-sm rounded-lg border border-white/5 p-1 hover:border-white/20 transition-colors">
@@ -318,25 +1118,61 @@ const App: React.FC = () => {
                  </div>
 
                  <p className="text-xs text-white mt-2 max-w-xs text-right opacity-90 drop-shadow-[0_1px_2px_rgba(0,0,0,0.8)]">{config.description}</p>
+                 {corrections.length > 0 && (
+                   <p
+                     title={corrections.join('\n')}
+                     className="flex items-center justify-end gap-1 text-[10px] text-amber-300 mt-1 cursor-help drop-shadow-[0_1px_2px_rgba(0,0,0,0.8)]"
+                   >
+                     <AlertTriangle className="w-3 h-3" /> {corrections.length} value{corrections.length > 1 ? 's' : ''} adjusted
+                   </p>
+                 )}
+                 {fallbackReason && (
+                   <p
+                     title={fallbackReason}
+                     className="flex items-center justify-end gap-1 text-[10px] text-sky-300 mt-1 cursor-help drop-shadow-[0_1px_2px_rgba(0,0,0,0.8)]"
+                   >
+                     <WifiOff className="w-3 h-3" /> Generator unavailable, offline interpreter used
+                   </p>
+                 )}
               </div>
            </div>
 
+           {promptHistory.turns.length > 0 && (
+             <PromptHistoryBar
+               history={promptHistory}
+               onUndo={() => showHistoryTurn(promptHistory.index - 1)}
+               onRedo={() => showHistoryTurn(promptHistory.index + 1)}
+               onSelect={showHistoryTurn}
+             />
+           )}
+
            {/* Input Bar */}
            <div className="relative group shadow-2xl">
               <div className="absolute -inset-0.5 bg-gradient-to-r from-cyan-500 to-purple-600 rounded-xl opacity-50 blur group-hover:opacity-100 transition duration-500"></div>
               <div className="relative flex items-center bg-black/80 backdrop-blur-xl rounded-xl p-1 border border-white/10">
-                 <div className="pl-4">
-                    <Wand2 className={`w-5 h-5 ${isGenerating ? 'text-purple-400 animate-pulse' : 'text-gray-400'}`} />
-                 </div>
+                 <button
+                    onClick={() => setIsRefining(!isRefining)}
+                    title={isRefining ? "Refining the current look (click to start fresh)" : "Starting fresh (click to refine the current look)"}
+                    className="pl-4"
+                 >
+                    {isRefining ? (
+                      <GitBranch className={`w-5 h-5 ${isGenerating ? 'text-purple-400 animate-pulse' : 'text-cyan-400'}`} />
+                    ) : (
+                      <Wand2 className={`w-5 h-5 ${isGenerating ? 'text-purple-400 animate-pulse' : 'text-gray-400'}`} />
+                    )}
+                 </button>
                  <input 
                     type="text" 
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
-                    placeholder="Describe the vibe... (e.g. 'Liquid metal bass', 'Soft clouds', 'Geometric tech')"
+                    placeholder={isRefining
+                      ? "Adjust the current look... (e.g. 'same but darker', 'slower and more blue')"
+                      : "Describe the vibe... (e.g. 'Liquid metal bass', 'Soft clouds', 'Geometric tech')"}
                     className="flex-1 bg-transparent border-none focus:ring-0 text-white placeholder-gray-400 px-4 py-3 font-medium outline-none"
                     disabled={isGenerating}
                  />
+                 <GeneratorSettingsPanel settings={generatorSettings} onChange={handleGeneratorSettingsChange} />
                  <button 
                     onClick={handleGenerate}
                     disabled={isGenerating || !prompt}
@@ -347,7 +1183,7 @@ const App: React.FC = () => {
                         <Loader2 className="w-4 h-4 animate-spin" /> Generating
                       </>
                     ) : (
-                      "Transform"
+                      isRefining ? "Refine" : "Transform"
                     )}
                  </button>
               </div>
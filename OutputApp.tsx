@@ -0,0 +1,73 @@
+import React, { useState, useRef, useEffect } from 'react';
+import ThreeScene from './components/ThreeScene';
+import { createSilentAudioData } from './services/audioAnalyzer';
+import { OutputMessage, OutputState, createOutputChannel, unpackAudioFrame } from './services/outputSync';
+import { toggleFullscreen } from './services/shortcuts';
+import { AudioData } from './types';
+
+// The same config arrives again whenever only the transition or particle
+// count changes; handing the scene a new object would restart its crossfade
+const keepConfig = (prev: OutputState | null, next: OutputState): OutputState =>
+  prev && JSON.stringify(prev.config) === JSON.stringify(next.config) ? { ...next, config: prev.config } : next;
+
+// Projector window: only the scene, driven by the control window
+const OutputApp: React.FC = () => {
+  const [state, setState] = useState<OutputState | null>(null);
+  const audioDataRef = useRef<AudioData>(createSilentAudioData());
+
+  useEffect(() => {
+    const channel = createOutputChannel((message: OutputMessage) => {
+      if (message.type === 'state') {
+        setState(prev => keepConfig(prev, message.state));
+      } else if (message.type === 'audio') {
+        audioDataRef.current = unpackAudioFrame(message.frame);
+      } else if (message.type === 'ping') {
+        channel.post({ type: 'hello' });
+      } else if (message.type === 'close') {
+        window.close();
+      }
+    });
+    channel.post({ type: 'hello' });
+
+    const handlePageHide = () => channel.post({ type: 'bye' });
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    document.title = 'FERRO Output';
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'f' && e.key !== 'F') return;
+      toggleFullscreen().catch(err => console.error("Error toggling fullscreen:", err));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleDoubleClick = () => {
+    toggleFullscreen().catch(err => console.error("Error toggling fullscreen:", err));
+  };
+
+  return (
+    <div className="relative w-full h-screen overflow-hidden bg-black cursor-none" onDoubleClick={handleDoubleClick}>
+      {state ? (
+        <ThreeScene
+          config={state.config}
+          audioDataRef={audioDataRef}
+          transitionDuration={state.transitionDuration}
+          particleCount={state.particleCount}
+          customShader={state.customShader}
+        />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center cursor-default">
+          <p className="text-xs text-gray-400 tracking-widest uppercase">Waiting for the control window…</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutputApp;
@@ -0,0 +1,88 @@
+import { RemoteArg, RemoteMessage } from "../services/remoteProtocol";
+
+// Minimal OSC 1.0 decoder for the remote bridge: messages and (nested)
+// bundles with the argument types show-control apps send. Bundle time tags
+// are ignored; everything is applied on arrival.
+
+// Strings are null-terminated and padded to a multiple of four bytes
+const readString = (buffer: Buffer, offset: number): [string, number] => {
+  const end = buffer.indexOf(0, offset);
+  if (end === -1) throw new Error("Unterminated OSC string");
+  return [buffer.toString("utf8", offset, end), (end + 4) & ~3];
+};
+
+const decodeMessage = (buffer: Buffer): RemoteMessage => {
+  const [address, afterAddress] = readString(buffer, 0);
+  if (!address.startsWith("/")) throw new Error(`Invalid OSC address "${address}"`);
+  // Very old senders omit the type tags entirely
+  if (afterAddress >= buffer.length) return { address, args: [] };
+
+  const [tags, afterTags] = readString(buffer, afterAddress);
+  if (!tags.startsWith(",")) throw new Error("Missing OSC type tags");
+
+  const args: RemoteArg[] = [];
+  let offset = afterTags;
+  for (const tag of tags.slice(1)) {
+    switch (tag) {
+      case "i":
+        args.push(buffer.readInt32BE(offset));
+        offset += 4;
+        break;
+      case "f":
+        args.push(buffer.readFloatBE(offset));
+        offset += 4;
+        break;
+      case "h":
+        args.push(Number(buffer.readBigInt64BE(offset)));
+        offset += 8;
+        break;
+      case "d":
+        args.push(buffer.readDoubleBE(offset));
+        offset += 8;
+        break;
+      case "s":
+      case "S": {
+        const [value, next] = readString(buffer, offset);
+        args.push(value);
+        offset = next;
+        break;
+      }
+      case "b":
+        // Blobs carry nothing the app understands; skip the payload
+        offset += (4 + buffer.readInt32BE(offset) + 3) & ~3;
+        break;
+      case "T":
+        args.push(true);
+        break;
+      case "F":
+        args.push(false);
+        break;
+      case "N":
+      case "I":
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag "${tag}"`);
+    }
+  }
+  return { address, args };
+};
+
+/**
+ * Every message in an OSC packet, in order. Throws on malformed packets.
+ */
+export const decodeOscPacket = (buffer: Buffer): RemoteMessage[] => {
+  if (buffer.toString("utf8", 0, 8) !== "#bundle\0") return [decodeMessage(buffer)];
+
+  const messages: RemoteMessage[] = [];
+  let offset = 16; // "#bundle\0" and the 8-byte time tag
+  while (offset < buffer.length) {
+    const size = buffer.readInt32BE(offset);
+    // A bad size would read past the packet or never advance
+    if (size <= 0 || size % 4 !== 0 || offset + 4 + size > buffer.length) {
+      throw new Error(`Invalid OSC bundle element size ${size}`);
+    }
+    messages.push(...decodeOscPacket(buffer.subarray(offset + 4, offset + 4 + size)));
+    offset += 4 + size;
+  }
+  return messages;
+};
@@ -0,0 +1,179 @@
+import dgram from "node:dgram";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { GeometryType } from "../types";
+import { RemoteBridge, attachRemoteBridge } from "./remoteBridge";
+import { REMOTE_PATH, RemoteMessage, parseRemoteJson } from "../services/remoteProtocol";
+import { interpretRemoteMessage } from "../services/remoteControl";
+
+// End to end over loopback: a real HTTP server with the bridge attached, OSC
+// sent over UDP to 127.0.0.1 and JSON over WebSocket, and a WebSocket client
+// standing in for the app tab that records what gets forwarded.
+
+type OscArg = string | number | { float: number };
+
+const oscString = (value: string) => {
+  const bytes = Buffer.from(`${value}\0`);
+  return Buffer.concat([bytes, Buffer.alloc((4 - (bytes.length % 4)) % 4)]);
+};
+
+const int32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32BE(value);
+  return buffer;
+};
+
+const oscMessage = (address: string, ...args: OscArg[]) => {
+  const tags = args.map((arg) => (typeof arg === "string" ? "s" : typeof arg === "number" ? "i" : "f")).join("");
+  const payload = args.map((arg) => {
+    if (typeof arg === "string") return oscString(arg);
+    if (typeof arg === "number") return int32(arg);
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatBE(arg.float);
+    return buffer;
+  });
+  return Buffer.concat([oscString(address), oscString(`,${tags}`), ...payload]);
+};
+
+const oscBundle = (...elements: Buffer[]) =>
+  Buffer.concat([oscString("#bundle"), int32(0), int32(1), ...elements.flatMap((element) => [int32(element.length), element])]);
+
+describe("remote bridge", () => {
+  let server: Server;
+  let bridge: RemoteBridge;
+  let oscPort: number;
+  let udp: dgram.Socket;
+  let app: WebSocket;
+  let received: RemoteMessage[][];
+  let waiters: (() => void)[];
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+  const url = () => `ws://127.0.0.1:${(server.address() as AddressInfo).port}${REMOTE_PATH}`;
+
+  const connect = (headers?: Record<string, string>) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url(), { headers });
+      socket.once("open", () => resolve(socket));
+      socket.once("error", reject);
+    });
+
+  // Resolves with the next batch the app client receives
+  const nextForwarded = () =>
+    new Promise<RemoteMessage[]>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("Nothing was forwarded")), 2000);
+      waiters.push(() => {
+        clearTimeout(timer);
+        resolve(received.shift()!);
+      });
+    });
+
+  const sendOsc = (packet: Buffer) =>
+    new Promise<void>((resolve, reject) => udp.send(packet, oscPort, "127.0.0.1", (error) => (error ? reject(error) : resolve())));
+
+  beforeEach(async () => {
+    server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    oscPort = 40000 + Math.floor(Math.random() * 20000);
+    bridge = attachRemoteBridge(server, { oscPort }, logger);
+    await bridge.ready;
+    expect(bridge.oscAddress()?.address).toBe("127.0.0.1");
+
+    udp = dgram.createSocket("udp4");
+    received = [];
+    waiters = [];
+    app = await connect();
+    app.on("message", (data) => {
+      received.push(parseRemoteJson(data.toString()));
+      waiters.shift()?.();
+    });
+    logger.warn.mockClear();
+  });
+
+  afterEach(async () => {
+    app.close();
+    udp.close();
+    bridge.close();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("forwards /ferro/mode sent over OSC", async () => {
+    const forwarded = nextForwarded();
+    await sendOsc(oscMessage("/ferro/mode", "ferrofluid"));
+    const messages = await forwarded;
+    expect(messages).toEqual([{ address: "/ferro/mode", args: ["ferrofluid"] }]);
+    expect(interpretRemoteMessage(messages[0])).toEqual({ kind: "config", patch: { mode: "FERROFLUID" }, instant: false });
+  });
+
+  it("forwards every message of an OSC bundle in order", async () => {
+    const forwarded = nextForwarded();
+    await sendOsc(oscBundle(
+      oscMessage("/ferro/geometry", 2),
+      oscMessage("/ferro/color/primary", { float: 1 }, { float: 0 }, { float: 0.5 })
+    ));
+    const messages = await forwarded;
+    expect(messages).toEqual([
+      { address: "/ferro/geometry", args: [2] },
+      { address: "/ferro/color/primary", args: [1, 0, 0.5] }
+    ]);
+    expect(interpretRemoteMessage(messages[0])).toEqual({
+      kind: "config",
+      patch: { geometryType: Object.values(GeometryType)[2] },
+      instant: false
+    });
+    expect(interpretRemoteMessage(messages[1])).toEqual({ kind: "config", patch: { primaryColor: "#ff0080" }, instant: true });
+  });
+
+  it("forwards JSON from one WebSocket client to the others, not back to the sender", async () => {
+    const controller = await connect();
+    const echoed: string[] = [];
+    controller.on("message", (data) => echoed.push(data.toString()));
+
+    let forwarded = nextForwarded();
+    controller.send(JSON.stringify({ address: "/ferro/bloom", args: [9] }));
+    const [bloom] = await forwarded;
+    expect(bloom).toEqual({ address: "/ferro/bloom", args: [9] });
+    expect(interpretRemoteMessage(bloom)).toEqual({ kind: "config", patch: { bloomIntensity: 3 }, instant: true });
+
+    forwarded = nextForwarded();
+    controller.send(JSON.stringify([{ address: "/ferro/prompt", args: "dark dubstep" }]));
+    const [prompt] = await forwarded;
+    expect(interpretRemoteMessage(prompt)).toEqual({ kind: "prompt", prompt: "dark dubstep" });
+
+    expect(echoed).toEqual([]);
+    controller.close();
+  });
+
+  it("drops addresses outside /ferro/ and forwards unknown /ferro/ ones for the app to ignore", async () => {
+    const forwarded = nextForwarded();
+    await sendOsc(oscMessage("/other/mode", "ORBIT"));
+    await sendOsc(oscMessage("/ferro/unknown", 1));
+    const messages = await forwarded;
+    expect(messages).toEqual([{ address: "/ferro/unknown", args: [1] }]);
+    expect(interpretRemoteMessage(messages[0])).toBeNull();
+    expect(interpretRemoteMessage({ address: "/ferro/mode", args: [99] })).toBeNull();
+    expect(interpretRemoteMessage({ address: "/ferro/bloom", args: ["bright"] })).toBeNull();
+  });
+
+  it("ignores malformed packets and keeps running", async () => {
+    const forwarded = nextForwarded();
+    const truncated = oscBundle(oscMessage("/ferro/mode", "ORBIT")).subarray(0, 30);
+    const negativeSize = Buffer.concat([oscString("#bundle"), int32(0), int32(1), int32(-4)]);
+    await sendOsc(truncated);
+    await sendOsc(negativeSize);
+    await sendOsc(Buffer.from("no address"));
+    app.send("{not json");
+    await sendOsc(oscMessage("/ferro/mode", "ORBIT"));
+
+    expect(await forwarded).toEqual([{ address: "/ferro/mode", args: ["ORBIT"] }]);
+    expect(logger.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it("refuses WebSocket connections from pages on other origins", async () => {
+    await expect(connect({ Origin: "http://evil.example" })).rejects.toThrow(/403/);
+    const sameOrigin = await connect({ Origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    sameOrigin.close();
+  });
+});
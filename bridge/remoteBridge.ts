@@ -0,0 +1,140 @@
+import dgram from "node:dgram";
+import { IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Duplex } from "node:stream";
+import { Logger, Plugin } from "vite";
+import { WebSocketServer, WebSocket } from "ws";
+import { decodeOscPacket } from "./osc";
+import { REMOTE_ADDRESS_PREFIX, REMOTE_PATH, RemoteMessage, parseRemoteJson } from "../services/remoteProtocol";
+
+// Dev-server plugin that lets show-control software drive the app. It listens
+// for OSC on a UDP port and for JSON on a WebSocket at REMOTE_PATH on the dev
+// server, and forwards every /ferro/... message as JSON to all connected
+// WebSocket clients (the app tabs and any other controllers). What each
+// address does is documented in services/remoteControl.ts.
+//
+// Remote messages can switch the show and spend the LLM quota (/ferro/prompt),
+// so by default only this machine gets in: OSC binds to loopback and
+// WebSocket upgrades from other hosts are refused. `allowLan` opens both.
+
+export interface RemoteBridgeOptions {
+  oscPort?: number;   // UDP port for OSC, 0 to disable
+  oscHost?: string;   // Defaults to loopback, or every interface with allowLan
+  allowLan?: boolean; // Accept OSC and WebSocket clients from other hosts
+}
+
+export interface RemoteBridge {
+  // Resolves once the OSC socket listens (right away without OSC)
+  ready: Promise<void>;
+  oscAddress: () => AddressInfo | null;
+  close: () => void;
+}
+
+export type BridgeLogger = Pick<Logger, "info" | "warn" | "error">;
+
+export const DEFAULT_OSC_PORT = 9000;
+
+const isLoopback = (address: string | undefined) => !!address && (address === "::1" || /^(::ffff:)?127\./.test(address));
+
+// Browsers always send an Origin; a page from another site must not reach
+// the bridge through the user's browser. Native controllers send none.
+const isSameOrigin = (req: IncomingMessage) => {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Serves the bridge on an existing HTTP server. Used by the Vite plugin and
+ * usable on its own, e.g. against a plain node:http server.
+ */
+export const attachRemoteBridge = (
+  httpServer: Server,
+  { oscPort = DEFAULT_OSC_PORT, allowLan = false, oscHost = allowLan ? "0.0.0.0" : "127.0.0.1" }: RemoteBridgeOptions = {},
+  logger: BridgeLogger = console
+): RemoteBridge => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  const broadcast = (messages: RemoteMessage[], from?: WebSocket) => {
+    const accepted = messages.filter((message) => message.address.startsWith(REMOTE_ADDRESS_PREFIX));
+    if (!accepted.length) return;
+    const payload = JSON.stringify(accepted);
+    wss.clients.forEach((client) => {
+      if (client !== from && client.readyState === WebSocket.OPEN) client.send(payload);
+    });
+  };
+
+  // Vite's own HMR socket only claims its own upgrades; take ours by path
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (req.url !== REMOTE_PATH) return;
+    if ((!allowLan && !isLoopback(req.socket.remoteAddress)) || !isSameOrigin(req)) {
+      logger.warn(`[ferro] Refused remote control connection from ${req.socket.remoteAddress ?? "unknown"}`);
+      socket.write("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  };
+  httpServer.on("upgrade", handleUpgrade);
+
+  wss.on("connection", (ws) => {
+    ws.on("message", (data, isBinary) => {
+      if (!isBinary) broadcast(parseRemoteJson(data.toString()), ws);
+    });
+  });
+
+  let osc: dgram.Socket | null = null;
+  let ready = Promise.resolve();
+  if (oscPort) {
+    const socket = dgram.createSocket("udp4");
+    osc = socket;
+    socket.on("message", (packet) => {
+      try {
+        broadcast(decodeOscPacket(packet));
+      } catch (error) {
+        logger.warn(`[ferro] Ignored OSC packet: ${(error as Error).message}`);
+      }
+    });
+    ready = new Promise((resolve) => {
+      socket.on("error", (error) => {
+        logger.error(`[ferro] OSC listener failed: ${error.message}`);
+        socket.close();
+        osc = null;
+        resolve();
+      });
+      socket.bind(oscPort, oscHost, () => {
+        logger.info(`  ➜  Remote control: OSC on udp://${oscHost}:${oscPort}, JSON over WebSocket at ${REMOTE_PATH}${allowLan ? " (LAN allowed)" : " (this machine only)"}`);
+        resolve();
+      });
+    });
+  }
+
+  const close = () => {
+    httpServer.off("upgrade", handleUpgrade);
+    httpServer.off("close", close);
+    osc?.close();
+    osc = null;
+    wss.clients.forEach((client) => client.terminate());
+    wss.close();
+  };
+  httpServer.on("close", close);
+
+  return {
+    ready,
+    oscAddress: () => osc?.address() ?? null,
+    close
+  };
+};
+
+export const ferroRemoteBridge = (options: RemoteBridgeOptions = {}): Plugin => ({
+  name: "ferro-remote-bridge",
+  apply: "serve",
+  configureServer(server) {
+    // Middleware mode: the host server owns upgrades
+    if (server.httpServer) attachRemoteBridge(server.httpServer as Server, options, server.config.logger);
+  }
+});
@@ -0,0 +1,183 @@
+import React from 'react';
+import { SlidersHorizontal, Lock, Unlock, Dices, X } from 'lucide-react';
+import { VisualConfig, GeometryType, BackgroundStyle } from '../types';
+import { MODES } from './modes';
+import { CONFIG_RANGES, COLOR_FIELDS, NUMERIC_FIELDS, ColorField, NumericField } from '../services/configValidation';
+import { ControlField, CONTROL_FIELDS } from '../services/configLocks';
+import { SHORTCUTS, ShortcutAction } from '../services/shortcuts';
+import { BUILT_IN_BACKGROUNDS, BUILT_IN_BACKGROUND_IDS } from '../services/backgroundShaders';
+import EffectStack from './EffectStack';
+
+interface ControlPanelProps {
+  isOpen: boolean;
+  config: VisualConfig;
+  locked: ControlField[];
+  onToggle: () => void;
+  // `instant` skips the crossfade, for sliders and pickers being dragged
+  onChange: (patch: Partial<VisualConfig>, instant: boolean) => void;
+  onToggleLock: (field: ControlField) => void;
+  onRandomize: (fields: ControlField[]) => void;
+}
+
+const FIELD_LABELS: Record<ControlField, string> = {
+  mode: 'Mode',
+  geometryType: 'Geometry',
+  background: 'Backdrop',
+  primaryColor: 'Primary',
+  secondaryColor: 'Secondary',
+  backgroundColor: 'Background',
+  particleSize: 'Particle size',
+  rotationSpeed: 'Rotation',
+  sensitivity: 'Sensitivity',
+  bloomIntensity: 'Bloom',
+  effects: 'Effects'
+};
+
+const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  nextMode: 'Next mode',
+  previousMode: 'Previous mode',
+  nextGeometry: 'Next geometry',
+  previousGeometry: 'Previous geometry',
+  toggleUi: 'Hide / show UI',
+  toggleFullscreen: 'Fullscreen',
+  toggleControls: 'This panel'
+};
+
+const ControlPanel: React.FC<ControlPanelProps> = ({
+  isOpen,
+  config,
+  locked,
+  onToggle,
+  onChange,
+  onToggleLock,
+  onRandomize
+}) => {
+  const selectClass = "w-full bg-white/5 border border-white/10 rounded-md px-2 py-1 text-xs font-mono text-white outline-none focus:border-cyan-500 cursor-pointer";
+
+  const renderRow = (field: ControlField, control: React.ReactNode) => {
+    const isLocked = locked.includes(field);
+    return (
+      <div key={field} className="flex items-center gap-2">
+        <span className="w-20 shrink-0 text-[10px] text-gray-400 uppercase tracking-wider">{FIELD_LABELS[field]}</span>
+        <div className="flex-1 min-w-0 flex items-center gap-2">{control}</div>
+        <button
+          onClick={() => onRandomize([field])}
+          disabled={isLocked}
+          title="Randomize"
+          className="text-gray-500 hover:text-white disabled:opacity-30"
+        >
+          <Dices className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => onToggleLock(field)}
+          title={isLocked ? "Locked: kept when a new look is generated" : "Lock"}
+          className={isLocked ? 'text-amber-300' : 'text-gray-500 hover:text-white'}
+        >
+          {isLocked ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+    );
+  };
+
+  const renderColor = (field: ColorField) => renderRow(field, (
+    <>
+      <input
+        type="color"
+        value={config[field]}
+        onChange={(e) => onChange({ [field]: e.target.value }, true)}
+        className="w-8 h-5 bg-transparent border-none cursor-pointer"
+      />
+      <span className="text-[10px] font-mono text-gray-300">{config[field]}</span>
+    </>
+  ));
+
+  const renderNumber = (field: NumericField) => renderRow(field, (
+    <>
+      <input
+        type="range"
+        min={CONFIG_RANGES[field].min}
+        max={CONFIG_RANGES[field].max}
+        step={0.05}
+        value={config[field]}
+        onChange={(e) => onChange({ [field]: Number(e.target.value) }, true)}
+        className="flex-1 min-w-0 h-1 accent-cyan-400 cursor-pointer"
+      />
+      <span className="w-8 text-right text-[10px] font-mono tabular-nums text-gray-300">{config[field].toFixed(2)}</span>
+    </>
+  ));
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={onToggle}
+        title="Controls (C)"
+        className="p-2 bg-black/40 backdrop-blur-md border border-white/10 hover:border-cyan-500 rounded-lg text-white transition-all"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-72 bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-2xl space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-xs font-semibold text-white">
+          <SlidersHorizontal className="w-3.5 h-3.5" /> Controls
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onRandomize(CONTROL_FIELDS.filter(field => !locked.includes(field)))}
+            title="Randomize everything that is not locked"
+            className="flex items-center gap-1 text-[10px] text-gray-300 hover:text-white"
+          >
+            <Dices className="w-3.5 h-3.5" /> All
+          </button>
+          <button onClick={onToggle} className="text-gray-400 hover:text-white">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {renderRow('mode', (
+        <select value={config.mode} onChange={(e) => onChange({ mode: e.target.value }, false)} className={selectClass}>
+          {MODES.map(mode => (
+            <option key={mode.id} value={mode.id} className="bg-black">{mode.name}</option>
+          ))}
+        </select>
+      ))}
+      {renderRow('geometryType', (
+        <select value={config.geometryType} onChange={(e) => onChange({ geometryType: e.target.value as GeometryType }, false)} className={selectClass}>
+          {Object.values(GeometryType).map(type => (
+            <option key={type} value={type} className="bg-black">{type}</option>
+          ))}
+        </select>
+      ))}
+      {renderRow('background', (
+        <select value={config.background} onChange={(e) => onChange({ background: e.target.value as BackgroundStyle }, false)} className={selectClass}>
+          {BUILT_IN_BACKGROUND_IDS.map(id => (
+            <option key={id} value={id} className="bg-black">{BUILT_IN_BACKGROUNDS[id].name}</option>
+          ))}
+          <option value={BackgroundStyle.Custom} className="bg-black">Custom shader</option>
+        </select>
+      ))}
+      {COLOR_FIELDS.map(renderColor)}
+      {NUMERIC_FIELDS.map(renderNumber)}
+      {renderRow('effects', (
+        <span className="text-[10px] font-mono text-gray-300">{config.effects.length ? `${config.effects.length} in chain` : 'None'}</span>
+      ))}
+      <EffectStack effects={config.effects} onChange={(effects, instant) => onChange({ effects }, instant)} />
+
+      {/* Shortcuts */}
+      <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 pt-2 border-t border-white/10">
+        {SHORTCUTS.map(shortcut => (
+          <div key={shortcut.action} className="flex items-center gap-1.5 text-[10px] text-gray-400">
+            <kbd className="min-w-[18px] text-center px-1 rounded bg-white/10 font-mono text-gray-200">{shortcut.label}</kbd>
+            {SHORTCUT_LABELS[shortcut.action]}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ControlPanel;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ListVideo, Download, Upload, Trash2, Plus } from 'lucide-react';
+import { Cue } from '../services/cueSheet';
+
+interface CuePanelProps {
+  cues: Cue[];
+  activeIndex: number;
+  canAddCue: boolean; // Needs an uploaded track to have a playhead
+  transitionOptions: number[];
+  onAdd: () => void;
+  onSeek: (time: number) => void;
+  onTransitionChange: (id: string, transition: number) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+export const formatCueTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+};
+
+const CuePanel: React.FC<CuePanelProps> = ({
+  cues,
+  activeIndex,
+  canAddCue,
+  transitionOptions,
+  onAdd,
+  onSeek,
+  onTransitionChange,
+  onDelete,
+  onImport,
+  onExport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md border rounded-lg text-white transition-all text-sm font-medium ${isOpen ? 'border-cyan-500' : 'border-white/10 hover:border-cyan-500'}`}
+      >
+        <ListVideo className="w-4 h-4" /> Cues
+        <span className="text-[10px] text-gray-400 font-mono">{cues.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-2xl">
+          {/* Add At Playhead */}
+          <button
+            onClick={onAdd}
+            disabled={!canAddCue}
+            title={canAddCue ? "Add a cue at the playhead with the current look" : "Upload a track to add cues"}
+            className="w-full flex items-center justify-center gap-1.5 mb-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-xs text-white disabled:opacity-40"
+          >
+            <Plus className="w-3.5 h-3.5" /> Cue at playhead
+          </button>
+
+          {/* Cue List */}
+          <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+            {cues.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-4">No cues yet</p>
+            )}
+            {cues.map((cue, i) => (
+              <div
+                key={cue.id}
+                className={`group flex items-center gap-2 rounded-md px-2 py-1.5 ${i === activeIndex ? 'bg-cyan-500/10' : 'hover:bg-white/5'}`}
+              >
+                <button
+                  onClick={() => onSeek(cue.time)}
+                  title="Jump to cue"
+                  className="text-xs font-mono tabular-nums text-cyan-300 hover:text-cyan-100 shrink-0"
+                >
+                  {formatCueTime(cue.time)}
+                </button>
+                <div className="flex gap-0.5 shrink-0">
+                  {cue.config.primaryColor && <span className="w-2.5 h-2.5 rounded-full" style={{ background: cue.config.primaryColor }} />}
+                  {cue.config.secondaryColor && <span className="w-2.5 h-2.5 rounded-full" style={{ background: cue.config.secondaryColor }} />}
+                </div>
+                <div className="flex-1 min-w-0 text-[10px] text-gray-400 font-mono truncate" title={cue.config.description}>
+                  {cue.config.mode ?? Object.keys(cue.config).join(', ')}
+                </div>
+                <select
+                  value={cue.transition}
+                  onChange={(e) => onTransitionChange(cue.id, Number(e.target.value))}
+                  title="Crossfade into this cue"
+                  className="bg-transparent text-[10px] font-mono text-gray-300 outline-none cursor-pointer"
+                >
+                  {[...new Set([...transitionOptions, cue.transition])].sort((a, b) => a - b).map(seconds => (
+                    <option key={seconds} value={seconds} className="bg-black">{seconds === 0 ? 'CUT' : `${seconds}s`}</option>
+                  ))}
+                </select>
+                <button onClick={() => onDelete(cue.id)} className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Import / Export */}
+          <div className="flex gap-2 mt-3 pt-3 border-t border-white/10">
+            <label className="cursor-pointer flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-xs text-gray-300">
+              <Upload className="w-3.5 h-3.5" /> Import
+              <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </label>
+            <button
+              onClick={onExport}
+              disabled={cues.length === 0}
+              className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-xs text-gray-300 disabled:opacity-40"
+            >
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CuePanel;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, X } from 'lucide-react';
+import { EffectConfig, EffectType } from '../types';
+import { EFFECTS, getEffect } from './effects';
+
+interface EffectStackProps {
+  effects: EffectConfig[];
+  // `instant` skips the crossfade, for sliders being dragged
+  onChange: (effects: EffectConfig[], instant: boolean) => void;
+}
+
+const SLIDERS: { key: 'intensity' | 'reactivity'; label: string }[] = [
+  { key: 'intensity', label: 'Amount' },
+  { key: 'reactivity', label: 'React' }
+];
+
+// Ordered post-processing chain, top runs first
+const EffectStack: React.FC<EffectStackProps> = ({ effects, onChange }) => {
+  const available = EFFECTS.filter(effect => !effects.some(item => item.type === effect.type));
+
+  const update = (index: number, patch: Partial<EffectConfig>) =>
+    onChange(effects.map((effect, i) => (i === index ? { ...effect, ...patch } : effect)), true);
+
+  const move = (index: number, offset: number) => {
+    const next = [...effects];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect);
+    onChange(next, true);
+  };
+
+  return (
+    <div className="space-y-1.5 pl-2 border-l border-white/10">
+      {effects.map((effect, index) => (
+        <div key={effect.type} className="space-y-1">
+          <div className="flex items-center gap-1.5">
+            <span className="flex-1 truncate text-[11px] text-gray-200" title={getEffect(effect.type)?.description}>
+              {getEffect(effect.type)?.name ?? effect.type}
+            </span>
+            <button onClick={() => move(index, -1)} disabled={index === 0} title="Earlier in the chain" className="text-gray-500 hover:text-white disabled:opacity-30">
+              <ChevronUp className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => move(index, 1)} disabled={index === effects.length - 1} title="Later in the chain" className="text-gray-500 hover:text-white disabled:opacity-30">
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onChange(effects.filter((_, i) => i !== index), false)} title="Remove" className="text-gray-500 hover:text-white">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {SLIDERS.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-2">
+              <span className="w-12 shrink-0 text-[10px] text-gray-500">{label}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={effect[key]}
+                onChange={(e) => update(index, { [key]: Number(e.target.value) })}
+                className="flex-1 min-w-0 h-1 accent-cyan-400 cursor-pointer"
+              />
+              <span className="w-8 text-right text-[10px] font-mono tabular-nums text-gray-300">{effect[key].toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            const type = e.target.value as EffectType;
+            // Fades in through the config transition
+            if (type) onChange([...effects, { type, intensity: 0.5, reactivity: 0.5 }], false);
+          }}
+          className="w-full bg-white/5 border border-white/10 rounded-md px-2 py-1 text-xs text-white outline-none focus:border-cyan-500 cursor-pointer"
+        >
+          <option value="" className="bg-black">Add effect…</option>
+          {available.map(effect => (
+            <option key={effect.type} value={effect.type} className="bg-black">{effect.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default EffectStack;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Film, X } from 'lucide-react';
+
+interface ExportPanelProps {
+  canExport: boolean;
+  isExporting: boolean;
+  progress: number; // 0..1
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+// Offline PNG sequence export. Uses the resolution and frame rate picked in
+// the record controls.
+const ExportPanel: React.FC<ExportPanelProps> = ({ canExport, isExporting, progress, onStart, onCancel }) => {
+  return (
+    <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-3 py-2 rounded-lg border border-white/10 shadow-lg">
+      {isExporting ? (
+        <>
+          <div className="w-20 h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-400" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <span className="text-xs font-mono tabular-nums text-gray-200">{Math.round(progress * 100)}%</span>
+          <button onClick={onCancel} title="Cancel export" className="text-gray-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={onStart}
+          disabled={!canExport}
+          title={canExport ? "Render the uploaded track to PNG frames" : "Upload a file to export frames"}
+          className="flex items-center gap-2 text-gray-300 hover:text-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-300"
+        >
+          <Film className="w-4 h-4" />
+          <span className="text-xs font-semibold">PNG</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Cpu, AlertTriangle } from 'lucide-react';
+import { GeneratorSettings, GENERATOR_PROVIDERS, ProviderId, defaultModel } from '../services/configGenerator';
+
+interface GeneratorSettingsPanelProps {
+  settings: GeneratorSettings;
+  onChange: (settings: GeneratorSettings) => void;
+}
+
+const GeneratorSettingsPanel: React.FC<GeneratorSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const provider = GENERATOR_PROVIDERS.find(p => p.id === settings.provider) ?? GENERATOR_PROVIDERS[0];
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-xs text-white placeholder-gray-500 outline-none focus:border-cyan-500";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={`Generator: ${provider.label} · ${settings.model}`}
+        className={`p-2 rounded-lg transition-colors ${isOpen ? 'text-cyan-400' : 'text-gray-400 hover:text-white'}`}
+      >
+        <Cpu className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-3 w-64 bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-2xl space-y-2">
+          <label className="block text-[10px] text-gray-400 uppercase tracking-wider">
+            Provider
+            <select
+              value={settings.provider}
+              onChange={(e) => {
+                const id = e.target.value as ProviderId;
+                onChange({ ...settings, provider: id, model: defaultModel(id) });
+              }}
+              className={`${inputClass} mt-1 cursor-pointer`}
+            >
+              {GENERATOR_PROVIDERS.map(p => (
+                <option key={p.id} value={p.id} className="bg-black">{p.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {settings.provider !== 'mock' && (
+            <>
+              <label className="block text-[10px] text-gray-400 uppercase tracking-wider">
+                Model
+                <input
+                  list="generator-models"
+                  value={settings.model}
+                  onChange={(e) => onChange({ ...settings, model: e.target.value })}
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+                <datalist id="generator-models">
+                  {provider.models.map(model => <option key={model} value={model} />)}
+                </datalist>
+              </label>
+
+              {settings.provider === 'openai' && (
+                <label className="block text-[10px] text-gray-400 uppercase tracking-wider">
+                  Base URL
+                  <input
+                    value={settings.baseUrl}
+                    onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className={`${inputClass} mt-1 font-mono`}
+                  />
+                </label>
+              )}
+
+              <label className="block text-[10px] text-gray-400 uppercase tracking-wider">
+                API Key
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+                  placeholder={settings.provider === 'gemini' ? "Uses the build key when empty" : "Optional for local servers"}
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+              </label>
+
+              <label className="flex items-center gap-2 text-[11px] text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.rememberKey}
+                  onChange={(e) => onChange({ ...settings, rememberKey: e.target.checked })}
+                  className="accent-cyan-400"
+                />
+                Remember key on this device
+              </label>
+              {settings.rememberKey ? (
+                <p className="flex gap-1.5 text-[10px] text-amber-300">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  Stored unencrypted in this browser; any script running on this site can read it.
+                </p>
+              ) : (
+                <p className="text-[10px] text-gray-500">The key is forgotten when this tab closes.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeneratorSettingsPanel;
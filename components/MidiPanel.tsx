@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Piano, X } from 'lucide-react';
+import { MidiBinding, MidiTarget, MIDI_FIELDS, MIDI_ACTIONS, MidiField, MidiAction, bindingFor, describeControl, targetKey } from '../services/midiMapping';
+import { VisualPreset } from '../services/presetStore';
+
+interface MidiPanelProps {
+  isSupported: boolean;
+  isConnected: boolean;
+  devices: string[];
+  bindings: MidiBinding[];
+  presets: VisualPreset[];
+  learning: MidiTarget | null; // Target waiting for the next control
+  onConnect: () => void;
+  onLearn: (target: MidiTarget | null) => void;
+  onClear: (target: MidiTarget) => void;
+}
+
+const FIELD_LABELS: Record<MidiField, string> = {
+  particleSize: 'Particle size',
+  rotationSpeed: 'Rotation speed',
+  sensitivity: 'Sensitivity',
+  bloomIntensity: 'Bloom',
+  hue: 'Hue'
+};
+
+const ACTION_LABELS: Record<MidiAction, string> = {
+  nextMode: 'Next mode',
+  previousMode: 'Previous mode',
+  nextGeometry: 'Next geometry',
+  previousGeometry: 'Previous geometry'
+};
+
+const MidiPanel: React.FC<MidiPanelProps> = ({
+  isSupported,
+  isConnected,
+  devices,
+  bindings,
+  presets,
+  learning,
+  onConnect,
+  onLearn,
+  onClear
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const renderRow = (target: MidiTarget, label: string) => {
+    const binding = bindingFor(bindings, target);
+    const isLearning = learning !== null && targetKey(learning) === targetKey(target);
+    return (
+      <div key={targetKey(target)} className={`group flex items-center gap-2 rounded-md px-2 py-1 ${isLearning ? 'bg-cyan-500/10' : 'hover:bg-white/5'}`}>
+        <span className="flex-1 min-w-0 truncate text-xs text-gray-200">{label}</span>
+        <button
+          onClick={() => onLearn(isLearning ? null : target)}
+          disabled={!isConnected}
+          title={isLearning ? "Cancel learning" : "Click, then move a knob or hit a pad"}
+          className={`text-[10px] font-mono shrink-0 disabled:opacity-40 ${isLearning ? 'text-cyan-300 animate-pulse' : binding ? 'text-gray-300 hover:text-white' : 'text-gray-500 hover:text-white'}`}
+        >
+          {isLearning ? 'LEARNING…' : binding ? describeControl(binding.control) : 'LEARN'}
+        </button>
+        {binding && (
+          <button onClick={() => onClear(target)} title="Remove binding" className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const sectionClass = "text-[10px] text-gray-500 uppercase tracking-wider mt-2 mb-1 px-2";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md border rounded-lg text-white transition-all text-sm font-medium ${isOpen ? 'border-cyan-500' : 'border-white/10 hover:border-cyan-500'}`}
+      >
+        <Piano className="w-4 h-4" /> MIDI
+        <span className={`w-1.5 h-1.5 rounded-full ${isConnected && devices.length ? 'bg-emerald-400' : 'bg-gray-600'}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-2xl">
+          {!isConnected ? (
+            <button
+              onClick={onConnect}
+              disabled={!isSupported}
+              title={isSupported ? undefined : "This browser has no Web MIDI support"}
+              className="w-full py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-xs text-white disabled:opacity-40"
+            >
+              {isSupported ? 'Connect MIDI devices' : 'Web MIDI not supported'}
+            </button>
+          ) : (
+            <p className="text-[10px] text-gray-400 truncate px-2" title={devices.join('\n')}>
+              {devices.length ? devices.join(', ') : 'No MIDI inputs found, plug one in'}
+            </p>
+          )}
+
+          <div className="max-h-72 overflow-y-auto pr-1">
+            <div className={sectionClass}>Knobs &amp; faders</div>
+            {MIDI_FIELDS.map(field => renderRow({ kind: 'field', field }, FIELD_LABELS[field]))}
+            <div className={sectionClass}>Pads &amp; buttons</div>
+            {MIDI_ACTIONS.map(action => renderRow({ kind: 'action', action }, ACTION_LABELS[action]))}
+            {presets.map(preset => renderRow({ kind: 'preset', presetId: preset.id }, `Preset: ${preset.name}`))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiPanel;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Shuffle, Repeat, Repeat1 } from 'lucide-react';
+import { RepeatMode } from '../services/playlist';
+
+interface NowPlayingPanelProps {
+  name: string | null;
+  sourceType: 'mic' | 'file';
+  isPlaying: boolean;
+  getAudio: () => HTMLAudioElement | null; // Polled for the playhead
+  shuffle: boolean;
+  repeat: RepeatMode;
+  onTogglePlay: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSeek: (time: number) => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+  onChangeSource: () => void;
+}
+
+const formatTrackTime = (seconds: number) => {
+  if (!Number.isFinite(seconds) || seconds < 0) return '0:00';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+};
+
+const NowPlayingPanel: React.FC<NowPlayingPanelProps> = ({
+  name,
+  sourceType,
+  isPlaying,
+  getAudio,
+  shuffle,
+  repeat,
+  onTogglePlay,
+  onPrevious,
+  onNext,
+  onSeek,
+  onToggleShuffle,
+  onCycleRepeat,
+  onChangeSource
+}) => {
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    if (sourceType !== 'file') return;
+    const timer = window.setInterval(() => {
+      const audio = getAudio();
+      setPosition(audio?.currentTime ?? 0);
+      setDuration(audio && Number.isFinite(audio.duration) ? audio.duration : 0);
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [sourceType, getAudio]);
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const time = Number(e.target.value);
+    setPosition(time);
+    onSeek(time);
+  };
+
+  const iconButton = "p-1.5 hover:bg-white/10 rounded-full transition-colors";
+  const RepeatIcon = repeat === 'one' ? Repeat1 : Repeat;
+
+  return (
+    <div className="flex flex-col gap-1.5 bg-black/60 backdrop-blur-md px-4 py-2 rounded-lg border border-white/10 shadow-lg">
+      <div className="flex items-center gap-3">
+        <div className="flex flex-col">
+          <span className="text-[10px] text-gray-300 uppercase tracking-wider">Now Playing</span>
+          <span className="text-sm font-semibold max-w-[150px] truncate" title={name ?? undefined}>{name || "Unknown Source"}</span>
+        </div>
+        <div className="h-8 w-[1px] bg-white/20 mx-1"></div>
+        {sourceType === 'file' && (
+          <button onClick={onToggleShuffle} title="Shuffle" className={iconButton}>
+            <Shuffle className={`w-4 h-4 ${shuffle ? 'text-cyan-400' : 'text-gray-400'}`} />
+          </button>
+        )}
+        {sourceType === 'file' && (
+          <button onClick={onPrevious} title="Previous track" className={iconButton}>
+            <SkipBack className="w-4 h-4 text-white" />
+          </button>
+        )}
+        <button onClick={onTogglePlay} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+          {isPlaying ? <Pause className="w-5 h-5 text-cyan-400" /> : <Play className="w-5 h-5 text-white" />}
+        </button>
+        {sourceType === 'file' && (
+          <button onClick={onNext} title="Next track" className={iconButton}>
+            <SkipForward className="w-4 h-4 text-white" />
+          </button>
+        )}
+        {sourceType === 'file' && (
+          <button onClick={onCycleRepeat} title={`Repeat: ${repeat}`} className={iconButton}>
+            <RepeatIcon className={`w-4 h-4 ${repeat !== 'off' ? 'text-cyan-400' : 'text-gray-400'}`} />
+          </button>
+        )}
+        <button onClick={onChangeSource} className="text-xs text-gray-400 hover:text-white underline ml-2">
+          Change Source
+        </button>
+      </div>
+
+      {/* Seek Bar */}
+      {sourceType === 'file' && (
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-mono tabular-nums text-gray-300 w-8">{formatTrackTime(position)}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={Math.min(position, duration)}
+            onChange={handleSeek}
+            disabled={!duration}
+            className="flex-1 h-1 accent-cyan-400 cursor-pointer disabled:cursor-not-allowed"
+          />
+          <span className="text-[10px] font-mono tabular-nums text-gray-300 w-9 text-right">-{formatTrackTime(duration - position)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NowPlayingPanel;
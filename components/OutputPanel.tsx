@@ -0,0 +1,54 @@
+import React from 'react';
+import { MonitorUp, Eye, EyeOff, X } from 'lucide-react';
+
+interface OutputPanelProps {
+  isSupported: boolean;
+  isOpen: boolean;
+  showPreview: boolean; // Keep a small copy of the scene in this window
+  onOpen: () => void;
+  onClose: () => void;
+  onTogglePreview: () => void;
+}
+
+const OutputPanel: React.FC<OutputPanelProps> = ({
+  isSupported,
+  isOpen,
+  showPreview,
+  onOpen,
+  onClose,
+  onTogglePreview
+}) => {
+  if (!isOpen) {
+    return (
+      <button
+        onClick={onOpen}
+        disabled={!isSupported}
+        title={isSupported ? "Open a separate output window for a projector or second screen" : "This browser cannot sync a second window"}
+        className="flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md border border-white/10 hover:border-cyan-500 rounded-lg text-white transition-all text-sm font-medium disabled:opacity-40 disabled:hover:border-white/10"
+      >
+        <MonitorUp className="w-4 h-4" /> Output
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 bg-black/60 backdrop-blur-md border border-cyan-500/50 rounded-lg text-white text-sm font-medium">
+      <span className="flex items-center gap-2" title="Double-click the output window or press F there for fullscreen">
+        <MonitorUp className="w-4 h-4" /> Output
+        <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" />
+      </span>
+      <button
+        onClick={onTogglePreview}
+        title={showPreview ? "Hide the preview in this window" : "Show a small preview in this window"}
+        className="text-gray-300 hover:text-white"
+      >
+        {showPreview ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+      </button>
+      <button onClick={onClose} title="Close the output window" className="text-gray-400 hover:text-red-400">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default OutputPanel;
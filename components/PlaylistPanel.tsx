@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { ListMusic, Plus, Trash2, ChevronUp, ChevronDown, Volume2 } from 'lucide-react';
+import { PlaylistTrack } from '../services/playlist';
+import { VisualPreset } from '../services/presetStore';
+
+interface PlaylistPanelProps {
+  tracks: PlaylistTrack[];
+  currentId: string | null;
+  presets: VisualPreset[];
+  crossfade: number;
+  crossfadeOptions: number[];
+  onAdd: (files: File[]) => void;
+  onPlay: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (id: string) => void;
+  onPresetChange: (id: string, presetId: string | null) => void;
+  onCrossfadeChange: (seconds: number) => void;
+}
+
+const PlaylistPanel: React.FC<PlaylistPanelProps> = ({
+  tracks,
+  currentId,
+  presets,
+  crossfade,
+  crossfadeOptions,
+  onAdd,
+  onPlay,
+  onMove,
+  onRemove,
+  onPresetChange,
+  onCrossfadeChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    if (files.length) onAdd(files);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md border rounded-lg text-white transition-all text-sm font-medium ${isOpen ? 'border-cyan-500' : 'border-white/10 hover:border-cyan-500'}`}
+      >
+        <ListMusic className="w-4 h-4" /> Playlist
+        <span className="text-[10px] text-gray-400 font-mono">{tracks.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-80 bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-2xl">
+          {/* Add Files */}
+          <label className="cursor-pointer w-full flex items-center justify-center gap-1.5 mb-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-xs text-white">
+            <Plus className="w-3.5 h-3.5" /> Add tracks
+            <input type="file" accept="audio/*" multiple onChange={handleAdd} className="hidden" />
+          </label>
+
+          {/* Track List */}
+          <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+            {tracks.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-4">Drop audio files anywhere to add them</p>
+            )}
+            {tracks.map((track, i) => (
+              <div
+                key={track.id}
+                className={`group flex items-center gap-2 rounded-md px-2 py-1.5 ${track.id === currentId ? 'bg-cyan-500/10' : 'hover:bg-white/5'}`}
+              >
+                <div className="flex flex-col shrink-0 text-gray-500">
+                  <button onClick={() => onMove(i, i - 1)} disabled={i === 0} className="hover:text-white disabled:opacity-30">
+                    <ChevronUp className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onMove(i, i + 1)} disabled={i === tracks.length - 1} className="hover:text-white disabled:opacity-30">
+                    <ChevronDown className="w-3 h-3" />
+                  </button>
+                </div>
+                <button
+                  onClick={() => onPlay(track.id)}
+                  title={track.name}
+                  className="flex-1 min-w-0 flex items-center gap-1.5 text-left text-xs text-gray-200 hover:text-white"
+                >
+                  {track.id === currentId && <Volume2 className="w-3 h-3 shrink-0 text-cyan-400" />}
+                  <span className="truncate">{track.name}</span>
+                </button>
+                <select
+                  value={track.presetId ?? ''}
+                  onChange={(e) => onPresetChange(track.id, e.target.value || null)}
+                  title="Preset applied when this track starts"
+                  className="max-w-[80px] bg-transparent text-[10px] font-mono text-gray-300 outline-none cursor-pointer"
+                >
+                  <option value="" className="bg-black">No preset</option>
+                  {presets.map(preset => (
+                    <option key={preset.id} value={preset.id} className="bg-black">{preset.name}</option>
+                  ))}
+                </select>
+                <button onClick={() => onRemove(track.id)} className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Crossfade */}
+          <div className="flex items-center justify-between mt-3 pt-3 border-t border-white/10 text-xs text-gray-300">
+            <span>Crossfade between tracks</span>
+            <select
+              value={crossfade}
+              onChange={(e) => onCrossfadeChange(Number(e.target.value))}
+              className="bg-transparent font-mono text-gray-200 outline-none cursor-pointer"
+            >
+              {crossfadeOptions.map(seconds => (
+                <option key={seconds} value={seconds} className="bg-black">{seconds === 0 ? 'OFF' : `${seconds}s`}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistPanel;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Bookmark, Download, Upload, Pencil, Trash2, Check, X, Save } from 'lucide-react';
+import { VisualConfig } from '../types';
+import { VisualPreset } from '../services/presetStore';
+
+interface PresetPanelProps {
+  presets: VisualPreset[];
+  currentConfig: VisualConfig;
+  onSave: (name: string) => void;
+  onLoad: (preset: VisualPreset) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({
+  presets,
+  currentConfig,
+  onSave,
+  onLoad,
+  onRename,
+  onDelete,
+  onImport,
+  onExport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleSave = () => {
+    onSave(newName || currentConfig.description);
+    setNewName('');
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md border rounded-lg text-white transition-all text-sm font-medium ${isOpen ? 'border-cyan-500' : 'border-white/10 hover:border-cyan-500'}`}
+      >
+        <Bookmark className="w-4 h-4" /> Presets
+        <span className="text-[10px] text-gray-400 font-mono">{presets.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-2xl">
+          {/* Save Current */}
+          <div className="flex items-center gap-2 mb-3">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Name this look..."
+              className="flex-1 bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-xs text-white placeholder-gray-500 outline-none focus:border-cyan-500"
+            />
+            <button onClick={handleSave} title="Save current look" className="p-1.5 rounded-md bg-white/10 hover:bg-white/20 text-white">
+              <Save className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {/* Preset List */}
+          <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+            {presets.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-4">No presets saved yet</p>
+            )}
+            {presets.map((preset) => (
+              <div key={preset.id} className="group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-white/5">
+                <div className="flex gap-0.5 shrink-0">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ background: preset.config.primaryColor }} />
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ background: preset.config.secondaryColor }} />
+                </div>
+
+                {editingId === preset.id ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-1 text-xs text-white outline-none"
+                    />
+                    <button onClick={commitRename} className="text-gray-400 hover:text-cyan-400"><Check className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-white"><X className="w-3.5 h-3.5" /></button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onLoad(preset)}
+                      title={preset.prompt || preset.config.description}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="text-xs text-white truncate">{preset.name}</div>
+                      <div className="text-[10px] text-gray-500 font-mono truncate">
+                        {preset.config.mode} · {preset.config.geometryType}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(preset.id);
+                        setEditingName(preset.name);
+                      }}
+                      className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-white"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onDelete(preset.id)} className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Import / Export */}
+          <div className="flex gap-2 mt-3 pt-3 border-t border-white/10">
+            <label className="cursor-pointer flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-xs text-gray-300">
+              <Upload className="w-3.5 h-3.5" /> Import
+              <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </label>
+            <button
+              onClick={onExport}
+              disabled={presets.length === 0}
+              className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-xs text-gray-300 disabled:opacity-40"
+            >
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Undo2, Redo2, Wand2, GitBranch } from 'lucide-react';
+import { PromptHistory, canUndo, canRedo } from '../services/promptHistory';
+
+interface PromptHistoryBarProps {
+  history: PromptHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (index: number) => void;
+}
+
+// How many of the most recent turns are shown as chips
+const VISIBLE_TURNS = 5;
+
+const PromptHistoryBar: React.FC<PromptHistoryBarProps> = ({ history, onUndo, onRedo, onSelect }) => {
+  const first = Math.max(0, history.turns.length - VISIBLE_TURNS);
+  const visible = history.turns.slice(first);
+
+  return (
+    <div className="flex items-center gap-2 mb-2 px-2">
+      <button onClick={onUndo} disabled={!canUndo(history)} title="Undo" className="p-1 text-gray-300 hover:text-cyan-400 disabled:opacity-30 disabled:hover:text-gray-300">
+        <Undo2 className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={onRedo} disabled={!canRedo(history)} title="Redo" className="p-1 text-gray-300 hover:text-cyan-400 disabled:opacity-30 disabled:hover:text-gray-300">
+        <Redo2 className="w-3.5 h-3.5" />
+      </button>
+      <div className="flex items-center gap-1 min-w-0 overflow-hidden">
+        {first > 0 && <span className="text-[10px] text-gray-500 font-mono">+{first}</span>}
+        {visible.map((turn, i) => {
+          const index = first + i;
+          const Icon = turn.kind === 'refine' ? GitBranch : Wand2;
+          return (
+            <button
+              key={turn.id}
+              onClick={() => onSelect(index)}
+              title={turn.prompt || turn.config.description}
+              className={`flex items-center gap-1 max-w-[140px] px-2 py-0.5 rounded-full border text-[10px] backdrop-blur-sm transition-colors ${
+                index === history.index
+                  ? 'bg-cyan-500/20 border-cyan-500/60 text-white'
+                  : index > history.index
+                    ? 'bg-black/30 border-white/5 text-gray-500'
+                    : 'bg-black/30 border-white/10 text-gray-300 hover:border-white/30'
+              }`}
+            >
+              {turn.kind !== 'start' && <Icon className="w-2.5 h-2.5 shrink-0" />}
+              <span className="truncate">{turn.kind === 'start' ? turn.prompt || 'Start' : turn.prompt}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PromptHistoryBar;
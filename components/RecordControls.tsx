@@ -0,0 +1,81 @@
+import React from 'react';
+import { Circle, Square, Loader2 } from 'lucide-react';
+import { RECORDING_RESOLUTIONS, RECORDING_FRAME_RATES } from '../services/recorder';
+
+interface RecordControlsProps {
+  isRecording: boolean;
+  isSaving: boolean;
+  elapsedMs: number;
+  resolutionIndex: number;
+  fps: number;
+  onResolutionChange: (index: number) => void;
+  onFpsChange: (fps: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const RecordControls: React.FC<RecordControlsProps> = ({
+  isRecording,
+  isSaving,
+  elapsedMs,
+  resolutionIndex,
+  fps,
+  onResolutionChange,
+  onFpsChange,
+  onStart,
+  onStop
+}) => {
+  const selectClass = "bg-transparent text-xs font-mono text-gray-200 outline-none cursor-pointer disabled:cursor-not-allowed disabled:opacity-50";
+
+  return (
+    <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md px-3 py-2 rounded-lg border border-white/10 shadow-lg">
+      <select
+        value={resolutionIndex}
+        onChange={(e) => onResolutionChange(Number(e.target.value))}
+        disabled={isRecording || isSaving}
+        title="Recording resolution"
+        className={selectClass}
+      >
+        {RECORDING_RESOLUTIONS.map((res, i) => (
+          <option key={res.label} value={i} className="bg-black">{res.label}</option>
+        ))}
+      </select>
+      <select
+        value={fps}
+        onChange={(e) => onFpsChange(Number(e.target.value))}
+        disabled={isRecording || isSaving}
+        title="Recording frame rate"
+        className={selectClass}
+      >
+        {RECORDING_FRAME_RATES.map(rate => (
+          <option key={rate} value={rate} className="bg-black">{rate}fps</option>
+        ))}
+      </select>
+
+      <div className="h-6 w-[1px] bg-white/20 mx-1"></div>
+
+      {isSaving ? (
+        <Loader2 className="w-4 h-4 animate-spin text-gray-300" />
+      ) : isRecording ? (
+        <button onClick={onStop} title="Stop and download" className="flex items-center gap-2 text-red-400 hover:text-red-300">
+          <Square className="w-4 h-4 fill-current" />
+          <span className="text-xs font-mono tabular-nums">{formatElapsed(elapsedMs)}</span>
+        </button>
+      ) : (
+        <button onClick={onStart} title="Record video" className="flex items-center gap-2 text-gray-300 hover:text-red-400">
+          <Circle className="w-4 h-4 fill-red-500 text-red-500" />
+          <span className="text-xs font-semibold">REC</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RecordControls;
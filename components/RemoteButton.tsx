@@ -0,0 +1,31 @@
+import React from 'react';
+import { RadioTower } from 'lucide-react';
+
+interface RemoteButtonProps {
+  isEnabled: boolean;
+  isConnected: boolean; // Bridge reachable; only meaningful while enabled
+  ignoredAddress: string | null; // Last message with an unknown address or bad args
+  onToggle: () => void;
+}
+
+const RemoteButton: React.FC<RemoteButtonProps> = ({ isEnabled, isConnected, ignoredAddress, onToggle }) => {
+  const status = !isEnabled
+    ? "Listen for OSC / WebSocket remote control through the dev server bridge"
+    : isConnected
+      ? "Remote control connected. Click to stop listening"
+      : "Waiting for the remote bridge (run the app with npm run dev). Click to stop";
+  const title = isEnabled && ignoredAddress ? `${status}\nIgnored a message to ${ignoredAddress} (unknown address or bad arguments)` : status;
+
+  return (
+    <button
+      onClick={onToggle}
+      title={title}
+      className={`flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md border rounded-lg text-white transition-all text-sm font-medium ${isEnabled ? 'border-cyan-500' : 'border-white/10 hover:border-cyan-500'}`}
+    >
+      <RadioTower className={`w-4 h-4 ${isEnabled && ignoredAddress ? 'text-amber-300' : ''}`} /> Remote
+      <span className={`w-1.5 h-1.5 rounded-full ${!isEnabled ? 'bg-gray-600' : isConnected ? 'bg-emerald-400' : 'bg-amber-400 animate-pulse'}`} />
+    </button>
+  );
+};
+
+export default RemoteButton;
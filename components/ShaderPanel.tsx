@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Code2, AlertTriangle, Check } from 'lucide-react';
+import { BUILT_IN_BACKGROUNDS, BUILT_IN_BACKGROUND_IDS, BuiltInBackground, ShaderError } from '../services/backgroundShaders';
+
+interface ShaderPanelProps {
+  source: string;
+  errors: ShaderError[];
+  isActive: boolean; // The custom shader is the current background
+  onChange: (source: string) => void;
+  onActivate: () => void;
+}
+
+// Edits settle for this long before they are compiled
+const COMPILE_DELAY_MS = 400;
+
+const UNIFORMS = 'uTime uEnergy uMood uBeat uBeatPhase uColor1 uColor2 uColor3 uSpectrum vUv → fragColor';
+
+const ShaderPanel: React.FC<ShaderPanelProps> = ({ source, errors, isActive, onChange, onActivate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(source);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  // Loading a built-in replaces the draft
+  useEffect(() => {
+    setDraft(source);
+  }, [source]);
+
+  useEffect(() => {
+    if (draft === source) return;
+    const timer = window.setTimeout(() => onChange(draft), COMPILE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft]);
+
+  const errorLines = new Set(errors.map(error => error.line));
+  const lineCount = draft.split('\n').length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-md border rounded-lg text-white transition-all text-sm font-medium ${isOpen ? 'border-cyan-500' : 'border-white/10 hover:border-cyan-500'}`}
+      >
+        <Code2 className="w-4 h-4" /> Shader
+        {errors.length > 0 && <span className="w-1.5 h-1.5 rounded-full bg-red-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-[32rem] bg-black/80 backdrop-blur-xl border border-white/10 rounded-xl p-3 shadow-2xl space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value=""
+              onChange={(e) => {
+                const id = e.target.value as BuiltInBackground;
+                if (id && window.confirm(`Replace the editor contents with ${BUILT_IN_BACKGROUNDS[id].name}?`)) {
+                  onChange(BUILT_IN_BACKGROUNDS[id].source);
+                }
+              }}
+              className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-xs text-white outline-none focus:border-cyan-500 cursor-pointer"
+            >
+              <option value="" className="bg-black">Start from…</option>
+              {BUILT_IN_BACKGROUND_IDS.map(id => (
+                <option key={id} value={id} className="bg-black">{BUILT_IN_BACKGROUNDS[id].name}</option>
+              ))}
+            </select>
+            <div className="flex-1" />
+            {isActive ? (
+              <span className="text-[10px] text-emerald-300 uppercase tracking-wider">Live</span>
+            ) : (
+              <button onClick={onActivate} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 text-xs text-white">
+                Use as background
+              </button>
+            )}
+          </div>
+
+          <div className="flex h-72 rounded-md border border-white/10 bg-black/60 font-mono text-[11px] leading-4 overflow-hidden">
+            <div ref={gutterRef} className="shrink-0 overflow-hidden py-2 pl-2 pr-1 text-right text-gray-600 select-none">
+              {Array.from({ length: lineCount }, (_, i) => (
+                <div key={i} className={errorLines.has(i + 1) ? 'text-red-400' : undefined}>{i + 1}</div>
+              ))}
+            </div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onScroll={(e) => {
+                if (gutterRef.current) gutterRef.current.scrollTop = e.target.scrollTop;
+              }}
+              spellCheck={false}
+              wrap="off"
+              className="flex-1 min-w-0 resize-none bg-transparent py-2 px-2 text-gray-100 outline-none"
+            />
+          </div>
+
+          <p className="text-[10px] text-gray-500 font-mono truncate" title={UNIFORMS}>{UNIFORMS}</p>
+
+          {errors.length > 0 ? (
+            <ul className="max-h-24 overflow-y-auto space-y-0.5">
+              {errors.map((error, i) => (
+                <li key={i} className="flex gap-2 text-[11px] text-red-300 font-mono">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  {error.line !== null && <span className="shrink-0 text-red-400">Line {error.line}</span>}
+                  <span className="break-all">{error.message}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="flex items-center gap-1.5 text-[11px] text-emerald-300">
+              <Check className="w-3 h-3" /> Compiled
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShaderPanel;
@@ -1,38 +1,101 @@
-import React, { useEffect, useRef } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
 import * as THREE from 'three';
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
-import { VisualConfig, VisualizerMode, AudioData, GeometryType } from '../types';
-
-// Helper function for GLSL-like smoothstep
-function smoothstep(min: number, max: number, value: number) {
-  const x = Math.max(0, Math.min(1, (value - min) / (max - min)));
-  return x * x * (3 - 2 * x);
+import { VisualConfig, AudioData, GeometryType, BackgroundStyle, EffectType } from '../types';
+import { BlendedConfig, ConfigTransition, blendConfigs, sampleTransition } from '../services/configTransition';
+import { ParticleField, createParticleField } from './particleField';
+import { SpectrumTexture, createSpectrumTexture } from './spectrumTexture';
+import { MODES, ModeInstance, getMode, particleModeIndex } from './modes';
+import { EFFECTS, EffectInstance } from './effects';
+import { RandomSource, createRandom } from '../services/random';
+import { BACKGROUND_VERTEX_SHADER, BUILT_IN_BACKGROUNDS, ShaderError, backgroundSource, buildBackgroundShader, checkBackgroundShader } from '../services/backgroundShaders';
+
+// Share of the way an exponential smoother with per-frame factor `k` (tuned
+// at 60fps) covers in `step` frames, so offline exports at other frame rates
+// ease exactly like live playback
+const smoothing = (k: number, step: number) => 1 - Math.pow(1 - k, step);
+
+// Frees every geometry, material and texture still attached to the scene graph
+function disposeScene(scene: THREE.Scene) {
+  scene.traverse((object: THREE.Object3D) => {
+    const mesh = object as THREE.Mesh;
+    if (mesh.geometry) mesh.geometry.dispose();
+    if (!mesh.material) return;
+    const materials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    for (const material of materials) {
+      for (const value of Object.values(material) as THREE.Texture[]) {
+        if (value instanceof THREE.Texture) value.dispose();
+      }
+      if (material instanceof THREE.ShaderMaterial) {
+        for (const uniform of Object.values(material.uniforms) as THREE.IUniform[]) {
+          if (uniform.value instanceof THREE.Texture) uniform.value.dispose();
+        }
+      }
+      material.dispose();
+    }
+  });
+  scene.clear();
 }
 
-// Simple pseudo-noise function for JS (simulates organic movement)
-function simpleNoise(x: number, y: number, z: number) {
-    return Math.sin(x) * Math.cos(y) + Math.sin(y) * Math.cos(z) + Math.sin(z) * Math.cos(x);
+// Imperative access for features that need the raw canvas (recording, export)
+export interface ThreeSceneHandle {
+  getCanvas: () => HTMLCanvasElement | null;
+  // Fixed drawing buffer size in pixels, or null to follow the window again
+  setRenderSize: (size: { width: number; height: number } | null) => void;
+  // Offline export: stop the live loop, reset all animation state and seed
+  // the random source so the same audio always renders the same frames
+  beginOffline: (options: { width: number; height: number; seed: number }) => void;
+  // Advances the scene by `delta` seconds and resolves with the frame as PNG
+  renderOfflineFrame: (audio: AudioData, delta: number) => Promise<Blob>;
+  endOffline: () => void;
 }
 
 interface ThreeSceneProps {
   config: VisualConfig;
   audioDataRef: React.MutableRefObject<AudioData>;
+  transitionDuration?: number; // Seconds to crossfade into a new config, 0 for a hard cut
+  particleCount?: number;
+  // 'preview' shrinks the scene into a corner, 'hidden' also stops rendering
+  // (a separate output window is showing it)
+  display?: SceneDisplay;
+  customShader?: string; // Body used by the CUSTOM background
+  // Compile result of every new customShader, empty when it compiled
+  onShaderErrors?: (errors: ShaderError[]) => void;
 }
 
-const ThreeScene: React.FC<ThreeSceneProps> = ({ config, audioDataRef }) => {
+export type SceneDisplay = 'full' | 'preview' | 'hidden';
+
+const DISPLAY_CLASSES: Record<SceneDisplay, string> = {
+  full: '',
+  // Scaled with CSS so the drawing buffer (and any recording) keeps full size
+  preview: 'origin-bottom-left scale-[0.2] translate-x-6 -translate-y-6 rounded-[40px] overflow-hidden border-[5px] border-white/30',
+  hidden: 'invisible'
+};
+
+const ThreeScene = forwardRef<ThreeSceneHandle, ThreeSceneProps>(({ config, audioDataRef, transitionDuration = 0, particleCount = 2500, display = 'full', customShader = '', onShaderErrors }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const particlesRef = useRef<THREE.InstancedMesh | null>(null);
-  const surfaceMeshRef = useRef<THREE.Mesh | null>(null);
-  const originalPositionsRef = useRef<Float32Array | null>(null);
+  const particleFieldRef = useRef<ParticleField | null>(null);
+  const spectrumTextureRef = useRef<SpectrumTexture | null>(null);
+  const leftSpectrumTextureRef = useRef<SpectrumTexture | null>(null);
+  const rightSpectrumTextureRef = useRef<SpectrumTexture | null>(null);
+  const modeInstancesRef = useRef<Map<string, ModeInstance>>(new Map()); // Modes with their own scene objects
+  const particleGeometryTypeRef = useRef<GeometryType | null>(null);
+  const particleCountRef = useRef<number>(particleCount);
 
   const composerRef = useRef<EffectComposer | null>(null);
   const bloomPassRef = useRef<UnrealBloomPass | null>(null);
-  const backgroundMaterialRef = useRef<THREE.ShaderMaterial | null>(null);
+  const effectInstancesRef = useRef<Map<EffectType, EffectInstance>>(new Map());
+  const effectChainRef = useRef<EffectType[]>([]); // Effect passes in the composer after bloom, in order
+  const backgroundMaterialRef = useRef<THREE.RawShaderMaterial | null>(null);
+  const backgroundBodyRef = useRef<string>(''); // Fragment body on the material now
+  const validCustomShaderRef = useRef<string | null>(null); // Last custom body that compiled
+  const onShaderErrorsRef = useRef(onShaderErrors);
+  onShaderErrorsRef.current = onShaderErrors;
   
   const frameIdRef = useRef<number>(0);
   const timeRef = useRef<number>(0);
@@ -45,11 +108,129 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ config, audioDataRef }) => {
   const smoothedBassRef = useRef<number>(0);
   const moodRef = useRef<number>(0); // 0.0 (Calm) to 1.0 (Intense)
 
-  // Constants
-  const PARTICLE_COUNT = 2500;
-  const dummy = new THREE.Object3D();
+  // Beat reaction refs
+  const beatPulseRef = useRef<number>(0); // Jumps to 1 on a beat, decays every frame
+  const beatCountRef = useRef<number>(0);
+
+  // Config transition refs
+  const configRef = useRef<VisualConfig>(config);
+  const transitionRef = useRef<ConfigTransition | null>(null);
+  const blendedConfigRef = useRef<BlendedConfig>(blendConfigs(config, config, 1));
+  const clockRef = useRef<number>(0); // Seconds since the scene started
+  const lastFrameTimeRef = useRef<number | null>(null);
+
+  // Fixed output size while recording; null follows the window
+  const renderSizeRef = useRef<{ width: number; height: number } | null>(null);
+
+  // Offline export state: the live loop idles while frames are stepped by hand
+  const offlineRef = useRef<boolean>(false);
+  const hiddenRef = useRef<boolean>(display === 'hidden');
+  const randomRef = useRef<RandomSource>(Math.random);
+  const renderFrameRef = useRef<((delta: number, audio: AudioData) => void) | null>(null);
+
+  const applyRenderSize = () => {
+    if (!cameraRef.current || !rendererRef.current || !composerRef.current) return;
+    const fixed = renderSizeRef.current;
+    const width = fixed ? fixed.width : window.innerWidth;
+    const height = fixed ? fixed.height : window.innerHeight;
+    const pixelRatio = fixed ? 1 : window.devicePixelRatio;
+
+    cameraRef.current.aspect = width / height;
+    cameraRef.current.updateProjectionMatrix();
+    rendererRef.current.setPixelRatio(pixelRatio);
+    // Keep the on-screen CSS size; only the drawing buffer changes
+    rendererRef.current.setSize(width, height, !fixed);
+    composerRef.current.setPixelRatio(pixelRatio);
+    composerRef.current.setSize(width, height);
+  };
+
+  // Until a custom shader compiles, CUSTOM shows the default background
+  const backgroundBody = (style: BackgroundStyle) =>
+    style === BackgroundStyle.Custom && validCustomShaderRef.current === null
+      ? BUILT_IN_BACKGROUNDS[BackgroundStyle.Aurora].source
+      : backgroundSource(style, validCustomShaderRef.current ?? '');
+
+  // Puts every piece of state the animation accumulates back to its start
+  const resetForOffline = (seed: number) => {
+    randomRef.current = createRandom(seed);
+    timeRef.current = 0;
+    clockRef.current = 0;
+    hueShiftRef.current = 0;
+    cameraAngleRef.current = 0;
+    smoothedBassRef.current = 0;
+    moodRef.current = 0;
+    beatPulseRef.current = 0;
+    beatCountRef.current = 0;
+    mouseRef.current.set(0, 0);
+    targetMouseRef.current.set(0, 0);
+    transitionRef.current = null;
+    blendedConfigRef.current = blendConfigs(configRef.current, configRef.current, 1);
+
+    cameraRef.current?.position.set(0, 5, 30);
+    cameraRef.current?.lookAt(0, 0, 0);
+    particleFieldRef.current?.mesh.rotation.set(0, 0, 0);
+    modeInstancesRef.current.forEach((instance) => instance.reset?.());
+    if (rendererRef.current) {
+      const renderer = rendererRef.current;
+      effectInstancesRef.current.forEach((instance) => instance.reset?.(renderer));
+    }
+    if (backgroundMaterialRef.current) {
+      const uniforms = backgroundMaterialRef.current.uniforms;
+      uniforms.uColor1.value.set(configRef.current.backgroundColor);
+      uniforms.uColor2.value.set(configRef.current.secondaryColor);
+      uniforms.uColor3.value.set(configRef.current.primaryColor);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    getCanvas: () => rendererRef.current?.domElement ?? null,
+    setRenderSize: (size) => {
+      renderSizeRef.current = size;
+      applyRenderSize();
+    },
+    beginOffline: ({ width, height, seed }) => {
+      offlineRef.current = true;
+      renderSizeRef.current = { width, height };
+      applyRenderSize();
+      resetForOffline(seed);
+    },
+    renderOfflineFrame: (audio, delta) =>
+      new Promise<Blob>((resolve, reject) => {
+        const canvas = rendererRef.current?.domElement;
+        if (!canvas || !renderFrameRef.current) {
+          reject(new Error("Scene is not ready"));
+          return;
+        }
+        renderFrameRef.current(delta, audio);
+        // Read back in the same task, before the drawing buffer is cleared
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode frame"))), "image/png");
+      }),
+    endOffline: () => {
+      offlineRef.current = false;
+      randomRef.current = Math.random;
+      renderSizeRef.current = null;
+      lastFrameTimeRef.current = null;
+      applyRenderSize();
+    }
+  }));
+
+  // Start a crossfade from whatever is on screen right now
+  useEffect(() => {
+    if (config === configRef.current) return;
+    const current = blendedConfigRef.current;
+    transitionRef.current = {
+      from: { ...current, mode: current.morph < 0.5 ? current.previousMode : current.mode },
+      to: config,
+      startTime: clockRef.current,
+      duration: transitionDuration
+    };
+    configRef.current = config;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config]);
 
   // Initialize Scene
+  // Runs once per mount: everything below is created a single time and driven
+  // through refs and uniforms afterwards, then disposed deterministically.
   useEffect(() => {
     if (!containerRef.current) return;
 
@@ -69,85 +250,36 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ config, audioDataRef }) => {
     renderer.setPixelRatio(window.devicePixelRatio);
     renderer.toneMapping = THREE.ACESFilmicToneMapping;
     renderer.toneMappingExposure = 1.2;
+    renderer.domElement.style.width = '100%';
+    renderer.domElement.style.height = '100%';
+    // Letterbox instead of stretching when the buffer aspect differs (recording)
+    renderer.domElement.style.objectFit = 'contain';
     containerRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
     // --- Background Shader Mesh ---
     const bgGeometry = new THREE.PlaneGeometry(200, 200);
-    const bgMaterial = new THREE.ShaderMaterial({
+    // Raw GLSL3 so the fragment source is exactly what the shader editor checks
+    const initialBackground = backgroundBody(configRef.current.background);
+    const bgMaterial = new THREE.RawShaderMaterial({
       uniforms: {
         uTime: { value: 0 },
         uEnergy: { value: 0 },
         uMood: { value: 0 },
-        uColor1: { value: new THREE.Color(config.backgroundColor) },
-        uColor2: { value: new THREE.Color(config.secondaryColor) },
-        uColor3: { value: new THREE.Color(config.primaryColor) }
+        uBeat: { value: 0 },
+        uBeatPhase: { value: 0 },
+        uColor1: { value: new THREE.Color(configRef.current.backgroundColor) },
+        uColor2: { value: new THREE.Color(configRef.current.secondaryColor) },
+        uColor3: { value: new THREE.Color(configRef.current.primaryColor) },
+        uSpectrum: { value: null } // Set once the spectrum texture exists
       },
-      vertexShader: `
-        varying vec2 vUv;
-        void main() {
-          vUv = uv;
-          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-        }
-      `,
-      fragmentShader: `
-        uniform float uTime;
-        uniform float uEnergy;
-        uniform float uMood;
-        uniform vec3 uColor1;
-        uniform vec3 uColor2;
-        uniform vec3 uColor3;
-        varying vec2 vUv;
-
-        // Noise function
-        float random (in vec2 st) {
-            return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
-        }
-
-        float noise (in vec2 st) {
-            vec2 i = floor(st);
-            vec2 f = fract(st);
-            float a = random(i);
-            float b = random(i + vec2(1.0, 0.0));
-            float c = random(i + vec2(0.0, 1.0));
-            float d = random(i + vec2(1.0, 1.0));
-            vec2 u = f * f * (3.0 - 2.0 * f);
-            return mix(a, b, u.x) + (c - a)* u.y * (1.0 - u.x) + (d - b) * u.x * u.y;
-        }
-
-        void main() {
-          vec2 uv = vUv;
-          float t = uTime * (0.1 + uMood * 0.4);
-          vec2 p = uv * 2.0 - 1.0; 
-          float frequency = mix(2.0, 8.0, uMood); 
-          float complexity = mix(0.5, 1.5, uMood);
-          float wave1 = sin(p.x * frequency + t) + sin(p.y * (frequency * 0.8) + t * 0.8);
-          float wave2 = sin(p.x * (frequency * 1.5) - t * 1.5) + sin(p.y * (frequency * 1.2) + t * 0.5);
-          float n = noise(uv * 10.0 + t) * uMood * 0.2;
-          float intensity = (wave1 + wave2 * complexity) / (2.0 + complexity) + n;
-          intensity = intensity * 0.5 + 0.5; 
-          
-          float mixSharpness = mix(0.5, 8.0, uMood); 
-          float mixFactor = smoothstep(0.0, 1.0, uv.y * 0.6 + intensity * 0.4);
-          mixFactor = clamp((mixFactor - 0.5) * (1.0 + uMood) + 0.5, 0.0, 1.0);
-
-          vec3 base = mix(uColor1, uColor2, mixFactor);
-          float glowThreshold = mix(0.4, 0.6, uMood);
-          float glowSize = mix(0.4, 0.1, uMood); 
-          float glow = smoothstep(glowThreshold, glowThreshold + glowSize, intensity);
-          
-          vec3 finalColor = mix(base, uColor3, glow * (0.5 + uEnergy * 0.5));
-          float dist = distance(vUv, vec2(0.5));
-          finalColor *= (1.2 - dist * 0.6); 
-          if(uMood > 0.5) {
-             finalColor = pow(finalColor, vec3(1.1 + (uMood - 0.5)));
-          }
-          gl_FragColor = vec4(finalColor, 1.0);
-        }
-      `,
+      vertexShader: BACKGROUND_VERTEX_SHADER,
+      fragmentShader: buildBackgroundShader(initialBackground),
+      glslVersion: THREE.GLSL3,
       side: THREE.BackSide,
       depthWrite: false 
     });
+    backgroundBodyRef.current = initialBackground;
     const bgMesh = new THREE.Mesh(bgGeometry, bgMaterial);
     bgMesh.position.z = -50;
     bgMesh.scale.set(2, 2, 1); 
@@ -167,38 +299,49 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ config, audioDataRef }) => {
     composer.addPass(bloomPass);
     composerRef.current = composer;
 
-    // --- Instanced Mesh (Particles) ---
-    // Will be initialized in the config effect but we set up the object here
-    const geometry = new THREE.BoxGeometry(0.8, 0.8, 0.8);
-    const material = new THREE.MeshPhysicalMaterial({
-      color: 0xffffff,
-      metalness: 0.2, 
-      roughness: 0.5,
-    });
-    const particles = new THREE.InstancedMesh(geometry, material, PARTICLE_COUNT);
-    scene.add(particles);
-    particlesRef.current = particles;
-
-    // --- Surface Mesh (For Surface Mode) ---
-    // Use an Icosahedron with high detail for organic deformations
-    const surfaceGeometry = new THREE.IcosahedronGeometry(10, 20); // Radius 10, detail 20 (high poly)
-    // Save original positions for vertex manipulation
-    originalPositionsRef.current = new Float32Array(surfaceGeometry.attributes.position.array.length);
-    originalPositionsRef.current.set(surfaceGeometry.attributes.position.array);
-
-    const surfaceMaterial = new THREE.MeshPhysicalMaterial({
-      color: 0xffffff,
-      metalness: 0.8,
-      roughness: 0.2,
-      clearcoat: 1.0,
-      clearcoatRoughness: 0.1,
-      wireframe: false,
-      flatShading: false,
-    });
-    const surfaceMesh = new THREE.Mesh(surfaceGeometry, surfaceMaterial);
-    surfaceMesh.visible = false;
-    scene.add(surfaceMesh);
-    surfaceMeshRef.current = surfaceMesh;
+    // Effects are built once; the config decides which join the chain
+    const effectInstances = new Map<EffectType, EffectInstance>();
+    for (const effect of EFFECTS) {
+      effectInstances.set(effect.type, effect.create());
+    }
+    effectInstancesRef.current = effectInstances;
+    effectChainRef.current = [];
+
+    // --- Spectrum Textures (shared by GPU driven modes) ---
+    const spectrumTexture = createSpectrumTexture();
+    spectrumTextureRef.current = spectrumTexture;
+    const leftSpectrumTexture = createSpectrumTexture();
+    leftSpectrumTextureRef.current = leftSpectrumTexture;
+    const rightSpectrumTexture = createSpectrumTexture();
+    rightSpectrumTextureRef.current = rightSpectrumTexture;
+    bgMaterial.uniforms.uSpectrum.value = spectrumTexture.texture;
+    const modeResources = {
+      spectrum: spectrumTexture.texture,
+      spectrumLeft: leftSpectrumTexture.texture,
+      spectrumRight: rightSpectrumTexture.texture
+    };
+
+    // --- Instanced Particles ---
+    // Layouts run in the vertex shader; geometry and count are swapped in place
+    const particleField = createParticleField(
+      particleCountRef.current,
+      configRef.current.geometryType,
+      modeResources
+    );
+    particleGeometryTypeRef.current = configRef.current.geometryType;
+    scene.add(particleField.mesh);
+    particleFieldRef.current = particleField;
+
+    // --- Mode Objects ---
+    // Modes that draw more than the particle field build their objects once
+    const modeInstances = new Map<string, ModeInstance>();
+    for (const mode of MODES) {
+      if (!mode.create) continue;
+      const instance = mode.create();
+      instance.init(scene, modeResources);
+      modeInstances.set(mode.id, instance);
+    }
+    modeInstancesRef.current = modeInstances;
 
 
     // Lights
@@ -211,54 +354,89 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ config, audioDataRef }) => {
 
     // Mouse Interaction
     const handleMouseMove = (e: MouseEvent) => {
+      if (offlineRef.current) return;
       // Normalize mouse to -1 to 1
       targetMouseRef.current.x = (e.clientX / window.innerWidth) * 2 - 1;
       targetMouseRef.current.y = -(e.clientY / window.innerHeight) * 2 + 1;
     };
     window.addEventListener('mousemove', handleMouseMove);
 
-    // Animation Loop
-    const animate = () => {
-      frameIdRef.current = requestAnimationFrame(animate);
-      timeRef.current += 0.005;
+    // One animation step. `delta` is in seconds; per-step increments are
+    // scaled so 60fps matches the original per-frame tuning.
+    const renderFrame = (delta: number, audio: AudioData) => {
+      const step = delta * 60;
+      timeRef.current += delta * 0.3;
+      clockRef.current += delta;
+
+      // --- Config Transition ---
+      const transition = transitionRef.current;
+      const cfg = transition ? sampleTransition(transition, clockRef.current) : blendConfigs(configRef.current, configRef.current, 1);
+      if (transition && cfg.morph >= 1) transitionRef.current = null;
+      blendedConfigRef.current = cfg;
 
       // Smooth mouse movement
-      mouseRef.current.lerp(targetMouseRef.current, 0.1);
+      mouseRef.current.lerp(targetMouseRef.current, smoothing(0.1, step));
 
-      const audio = audioDataRef.current;
-      
       // --- Analysis ---
-      smoothedBassRef.current += (audio.bass - smoothedBassRef.current) * 0.15;
+      smoothedBassRef.current += (audio.bass - smoothedBassRef.current) * smoothing(0.15, step);
       const normalizedBass = Math.min(smoothedBassRef.current / 255, 1.0);
 
       const currentEnergy = (audio.bass + audio.mid + audio.treble) / (255 * 3);
-      moodRef.current += (currentEnergy - moodRef.current) * 0.02; 
+      moodRef.current += (currentEnergy - moodRef.current) * smoothing(0.02, step);
       const mood = Math.max(0, Math.min(1, moodRef.current * 1.5));
 
-      hueShiftRef.current += 0.0002 + (mood * 0.001);
+      spectrumTextureRef.current?.update(audio.frequencyData);
+      leftSpectrumTextureRef.current?.update(audio.left.frequencyData);
+      rightSpectrumTextureRef.current?.update(audio.right.frequencyData);
+
+      hueShiftRef.current += (0.0002 + (mood * 0.001)) * step;
       if (hueShiftRef.current > 1) hueShiftRef.current -= 1;
 
+      // --- Beat Reactions ---
+      let cameraCut = false;
+      beatPulseRef.current *= Math.pow(0.9, step);
+      if (audio.onset) beatPulseRef.current = Math.max(beatPulseRef.current, 0.6);
+      if (audio.beat) {
+        beatPulseRef.current = 1;
+        beatCountRef.current++;
+        // Cut to a new camera angle on every 4th beat once the track gets intense
+        if (mood > 0.4 && beatCountRef.current % 4 === 0) {
+          cameraAngleRef.current += Math.PI * (0.5 + randomRef.current() * 0.5);
+          cameraCut = true;
+        }
+      }
+      const beatPulse = beatPulseRef.current;
+
       if (composerRef.current && bloomPassRef.current && backgroundMaterialRef.current && cameraRef.current) {
         
-        const basePrimary = new THREE.Color(config.primaryColor);
-        const baseSecondary = new THREE.Color(config.secondaryColor);
-        const baseBg = new THREE.Color(config.backgroundColor);
+        const basePrimary = new THREE.Color(cfg.primaryColor);
+        const baseSecondary = new THREE.Color(cfg.secondaryColor);
+        const baseBg = new THREE.Color(cfg.backgroundColor);
 
         const dynamicPrimary = basePrimary.clone().offsetHSL(hueShiftRef.current, mood * 0.2, 0);
         const dynamicSecondary = baseSecondary.clone().offsetHSL(hueShiftRef.current, mood * 0.2, 0);
         const dynamicBg = baseBg.clone().offsetHSL(hueShiftRef.current * 0.2, 0, 0);
 
         // Update Background
+        const body = backgroundBody(cfg.background);
+        if (body !== backgroundBodyRef.current) {
+          backgroundMaterialRef.current.fragmentShader = buildBackgroundShader(body);
+          backgroundMaterialRef.current.needsUpdate = true;
+          backgroundBodyRef.current = body;
+        }
         backgroundMaterialRef.current.uniforms.uTime.value = timeRef.current;
         backgroundMaterialRef.current.uniforms.uEnergy.value = normalizedBass; 
         backgroundMaterialRef.current.uniforms.uMood.value = mood;
-        backgroundMaterialRef.current.uniforms.uColor1.value.lerp(dynamicBg, 0.1);
-        backgroundMaterialRef.current.uniforms.uColor2.value.lerp(dynamicSecondary, 0.1);
-        backgroundMaterialRef.current.uniforms.uColor3.value.lerp(dynamicPrimary, 0.1);
+        backgroundMaterialRef.current.uniforms.uBeat.value = beatPulse;
+        backgroundMaterialRef.current.uniforms.uBeatPhase.value = audio.beatPhase;
+        const colorEase = smoothing(0.1, step);
+        backgroundMaterialRef.current.uniforms.uColor1.value.lerp(dynamicBg, colorEase);
+        backgroundMaterialRef.current.uniforms.uColor2.value.lerp(dynamicSecondary, colorEase);
+        backgroundMaterialRef.current.uniforms.uColor3.value.lerp(dynamicPrimary, colorEase);
 
         // Update Camera
         const camSpeed = 0.001 + (mood * 0.005);
-        cameraAngleRef.current += camSpeed;
+        cameraAngleRef.current += camSpeed * step;
         
         // Mouse influence on camera
         const mouseCamX = mouseRef.current.x * 2;
@@ -270,107 +448,136 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ config, audioDataRef }) => {
         
         const camX = Math.sin(cameraAngleRef.current) * radius + mouseCamX;
         const camZ = Math.cos(cameraAngleRef.current) * radius;
-        const camY = 5 + Math.sin(timeRef.current * 0.5) * 2 + ((Math.random() - 0.5) * mood * normalizedBass * 2) + mouseCamY;
+        const camY = 5 + Math.sin(timeRef.current * 0.5) * 2 + ((randomRef.current() - 0.5) * mood * normalizedBass * 2) + mouseCamY;
 
-        cameraRef.current.position.lerp(new THREE.Vector3(camX, camY, camZ), 0.1);
+        if (cameraCut) {
+          cameraRef.current.position.set(camX, camY, camZ);
+        } else {
+          cameraRef.current.position.lerp(new THREE.Vector3(camX, camY, camZ), smoothing(0.1, step));
+        }
         cameraRef.current.lookAt(0, 0, 0);
 
         // Update Bloom
-        bloomPassRef.current.strength = config.bloomIntensity * 0.5 + (normalizedBass * (1 + mood));
+        bloomPassRef.current.strength = cfg.bloomIntensity * 0.5 + (normalizedBass * (1 + mood)) + beatPulse * (0.6 + mood);
+
+        // --- Effect Chain ---
+        // Rebuild the passes after bloom only when the order changes
+        const chain = cfg.effects.map((effect) => effect.type);
+        if (chain.join() !== effectChainRef.current.join()) {
+          const composer = composerRef.current;
+          effectChainRef.current.forEach((type) => composer.removePass(effectInstancesRef.current.get(type)!.pass));
+          chain.forEach((type) => composer.addPass(effectInstancesRef.current.get(type)!.pass));
+          effectChainRef.current = chain;
+        }
+        for (const settings of cfg.effects) {
+          const instance = effectInstancesRef.current.get(settings.type)!;
+          instance.pass.enabled = settings.intensity > 0.001;
+          if (!instance.pass.enabled) continue;
+          instance.update(settings, {
+            time: timeRef.current,
+            step,
+            audio,
+            mood,
+            normalizedBass,
+            beatPulse,
+            random: randomRef.current
+          });
+        }
         
-        // --- Mode Switching Logic ---
-        if (config.mode === VisualizerMode.Surface && surfaceMeshRef.current && originalPositionsRef.current) {
-            // Surface Mode
-            if (particlesRef.current) particlesRef.current.visible = false;
-            surfaceMeshRef.current.visible = true;
-
-            const mesh = surfaceMeshRef.current;
-            // Update Mesh Material Color
-            if (mesh.material instanceof THREE.MeshPhysicalMaterial) {
-                mesh.material.color.lerp(dynamicPrimary, 0.1);
-                mesh.material.emissive.lerp(dynamicSecondary, 0.1);
-                mesh.material.emissiveIntensity = normalizedBass * 0.5;
-            }
-
-            // Vertex Manipulation
-            const positionAttribute = mesh.geometry.attributes.position;
-            const vertexCount = positionAttribute.count;
-            const originalPos = originalPositionsRef.current;
-
-            // Frequency bins mapped to vertices approximately
-            const data = audio.frequencyData;
-            const dataLen = data.length;
-
-            for (let i = 0; i < vertexCount; i++) {
-                const ox = originalPos[i * 3];
-                const oy = originalPos[i * 3 + 1];
-                const oz = originalPos[i * 3 + 2];
-
-                // Map vertex index to frequency data
-                const freqIndex = i % dataLen;
-                const freqVal = data[freqIndex] / 255.0;
-
-                // Noise based displacement
-                const n = simpleNoise(ox * 0.2 + timeRef.current, oy * 0.2 + timeRef.current, oz * 0.2);
-                
-                // Audio influence
-                const displacement = 1.0 + (freqVal * 0.5 * config.sensitivity) + (n * 0.2 * mood);
-
-                // Mouse interaction for Surface
-                // Project mouse to a 3D ray or simple distance check from projected screen coords?
-                // Using a simplified world-space distance check for performance:
-                // Assume mouse controls a point at z=10 roughly
-                const mouseWorldX = mouseRef.current.x * 15;
-                const mouseWorldY = mouseRef.current.y * 15;
-                const distToMouse = Math.sqrt(Math.pow(ox - mouseWorldX, 2) + Math.pow(oy - mouseWorldY, 2));
-                
-                let mouseFactor = 0;
-                if (distToMouse < 8) {
-                    mouseFactor = (1 - distToMouse / 8) * 2.0; // Bulge out near mouse
-                }
-
-                const totalScale = displacement + mouseFactor;
-
-                positionAttribute.setXYZ(
-                    i, 
-                    ox * totalScale, 
-                    oy * totalScale, 
-                    oz * totalScale
-                );
-            }
-            positionAttribute.needsUpdate = true;
-            mesh.rotation.y += 0.002;
-
-        } else if (particlesRef.current) {
+        // --- Modes ---
+        // How much of a mode is showing: 1 when active, fading in/out while morphing
+        const weightOf = (id: string) =>
+          (cfg.mode === id ? cfg.morph : 0) + (cfg.previousMode === id ? 1 - cfg.morph : 0);
+
+        // Modes with their own objects push the particle field out of view
+        let objectWeight = 0;
+        modeInstancesRef.current.forEach((instance, id) => {
+          const weight = weightOf(id);
+          objectWeight += weight;
+          instance.update({
+            time: timeRef.current,
+            step,
+            weight,
+            config: cfg,
+            audio,
+            mood,
+            normalizedBass,
+            beatPulse,
+            primary: dynamicPrimary,
+            secondary: dynamicSecondary,
+            mouse: mouseRef.current
+          });
+        });
+        objectWeight = Math.min(1, objectWeight);
+
+        if (particleFieldRef.current) particleFieldRef.current.mesh.visible = objectWeight < 1;
+
+        if (objectWeight < 1 && particleFieldRef.current) {
             // Particle Modes
-            if (surfaceMeshRef.current) surfaceMeshRef.current.visible = false;
-            particlesRef.current.visible = true;
-            
-            updateParticles(
-              particlesRef.current, 
-              timeRef.current, 
-              config, 
-              audio, 
-              dynamicPrimary, 
-              dynamicSecondary, 
-              mood, 
-              mouseRef.current
-            );
+            const field = particleFieldRef.current;
+            const uniforms = field.uniforms;
+            // A mode without a layout keeps the other side's layout while it fades
+            const modeIndex = particleModeIndex(cfg.mode);
+            const prevIndex = particleModeIndex(cfg.previousMode);
+            uniforms.uTime.value = timeRef.current;
+            uniforms.uMode.value = Math.max(0, modeIndex >= 0 ? modeIndex : prevIndex);
+            uniforms.uPrevMode.value = Math.max(0, prevIndex >= 0 ? prevIndex : modeIndex);
+            uniforms.uMorph.value = cfg.morph;
+            uniforms.uVisibility.value = 1 - objectWeight;
+            uniforms.uParticleSize.value = cfg.particleSize;
+            uniforms.uRotationSpeed.value = cfg.rotationSpeed;
+            uniforms.uBass.value = audio.bass;
+            uniforms.uMid.value = audio.mid;
+            uniforms.uBassLeft.value = audio.left.bass;
+            uniforms.uBassRight.value = audio.right.bass;
+            uniforms.uBalance.value = audio.balance;
+            uniforms.uWidth.value = audio.width;
+            uniforms.uMood.value = mood;
+            uniforms.uBeatPulse.value = beatPulse;
+            // Mouse world position approximation (at z=0 plane mostly)
+            uniforms.uMouse.value.set(mouseRef.current.x * 20, mouseRef.current.y * 20);
+            uniforms.uPrimary.value.copy(dynamicPrimary);
+            uniforms.uSecondary.value.copy(dynamicSecondary);
+
+            const rotationFactor = getMode(cfg.mode)?.particles?.rotationFactor ?? 1.0;
+            field.mesh.rotation.y += (0.001 + mood * 0.005) * cfg.rotationSpeed * rotationFactor * step;
+            field.mesh.rotation.z += (0.0005 + mood * 0.002) * rotationFactor * step;
+
+            // Screen right in the field's own space, so stereo layouts put
+            // the left channel on the left whatever the camera and spin
+            uniforms.uPanAxis.value
+              .set(1, 0, 0)
+              .applyQuaternion(cameraRef.current.quaternion)
+              .applyQuaternion(field.mesh.quaternion.clone().invert());
         }
         
         composerRef.current.render();
       }
     };
+    renderFrameRef.current = renderFrame;
+
+    // Live loop: real elapsed time, idle while an offline export drives
+    // frames or while the scene is hidden
+    const animate = () => {
+      frameIdRef.current = requestAnimationFrame(animate);
+      if (offlineRef.current) return;
+      if (hiddenRef.current) {
+        lastFrameTimeRef.current = null;
+        return;
+      }
+
+      const now = performance.now();
+      const delta = lastFrameTimeRef.current === null ? 0 : (now - lastFrameTimeRef.current) / 1000;
+      lastFrameTimeRef.current = now;
+      renderFrame(Math.min(delta, 0.1), audioDataRef.current);
+    };
 
     animate();
 
     const handleResize = () => {
-      if (cameraRef.current && rendererRef.current && composerRef.current) {
-        cameraRef.current.aspect = window.innerWidth / window.innerHeight;
-        cameraRef.current.updateProjectionMatrix();
-        rendererRef.current.setSize(window.innerWidth, window.innerHeight);
-        composerRef.current.setSize(window.innerWidth, window.innerHeight);
-      }
+      // A fixed recording size ignores the window
+      if (renderSizeRef.current) return;
+      applyRenderSize();
     };
 
     window.addEventListener('resize', handleResize);
@@ -379,210 +586,70 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ config, audioDataRef }) => {
       window.removeEventListener('resize', handleResize);
       window.removeEventListener('mousemove', handleMouseMove);
       cancelAnimationFrame(frameIdRef.current);
-      if (rendererRef.current && containerRef.current) {
-        containerRef.current.removeChild(rendererRef.current.domElement);
-        rendererRef.current.dispose();
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [config]); 
-
-  // --- Particle Update Logic ---
-  const updateParticles = (
-    mesh: THREE.InstancedMesh, 
-    time: number, 
-    cfg: VisualConfig, 
-    audio: AudioData,
-    cPrimary: THREE.Color,
-    cSecondary: THREE.Color,
-    mood: number,
-    mouse: THREE.Vector2
-  ) => {
-    if (!mesh) return;
-
-    // Re-geometry if needed logic is handled in config change usually, 
-    // but for instanced mesh we assume one geometry for now or we'd need to recreate the mesh.
-    // To support GeometryType change correctly, we'd need to recreate InstancedMesh in useEffect [config.geometryType].
-    // Since we are in the loop, we just manipulate position.
-    
-    // *Correction*: To properly switch geometry on the fly for particles, we need to rebuild the mesh.
-    // However, the current structure rebuilds everything on [config] change, so geometry switch works.
-
-    const data = audio.frequencyData;
-    const bass = audio.bass;
-    const mid = audio.mid;
-    const count = mesh.count;
-    
-    const rotationFactor = cfg.mode === VisualizerMode.Ferrofluid ? 0.2 : 1.0;
-    mesh.rotation.y += (0.001 + mood * 0.005) * cfg.rotationSpeed * rotationFactor;
-    mesh.rotation.z += (0.0005 + mood * 0.002) * rotationFactor;
 
-    const explosion = 1 + (bass / 50) * (0.5 + mood);
-    const goldenRatio = (1 + Math.sqrt(5)) / 2;
-    const angleIncrement = Math.PI * 2 * goldenRatio;
-    
-    // Mouse World Position approximation (at z=0 plane mostly)
-    const mouseWorldX = mouse.x * 20;
-    const mouseWorldY = mouse.y * 20;
-
-    for (let i = 0; i < count; i++) {
-      const freqIndex = Math.floor((i / count) * data.length);
-      const freqValue = data[freqIndex] || 0;
-      const normalizedFreq = freqValue / 255; 
-
-      let x = 0, y = 0, z = 0;
-      let scale = cfg.particleSize * (0.5 + normalizedFreq);
-      
-      const rand1 = Math.sin(i * 12.34);
-
-      if (cfg.mode === VisualizerMode.Ferrofluid) {
-          const t = i / count;
-          const inclination = Math.acos(1 - 2 * t);
-          const azimuth = angleIncrement * i;
-          
-          const radiusBase = 12; 
-          
-          const sx = Math.sin(inclination) * Math.cos(azimuth);
-          const sy = Math.sin(inclination) * Math.sin(azimuth);
-          const sz = Math.cos(inclination);
-          
-          const noiseFreq = 0.5;
-          const noiseAmp = 4 + (bass / 255) * 8; 
-          
-          const n1 = simpleNoise(sx * 3 + time, sy * 3 + time, sz * 3);
-          const n2 = simpleNoise(sx * 10, sy * 10 + time * 2, sz * 10); 
-          
-          const spike = Math.max(0, n1 + n2 * 0.5);
-          const displacement = radiusBase + (spike * noiseAmp * (0.5 + mood));
-
-          x = sx * displacement;
-          y = sy * displacement;
-          z = sz * displacement;
-
-          scale *= (1.2 - (displacement - radiusBase) / 10);
-          dummy.rotation.set(0,0,0);
-      }
-      else if (cfg.mode === VisualizerMode.Orbit) {
-        const theta = i * 0.1 + time * (cfg.rotationSpeed + mood);
-        const expansion = (bass / 255) * (5 + mood * 10);
-        const radius = 10 + expansion + (rand1 * mood * 5);
-        x = Math.sin(theta) * radius * Math.cos(i * 0.05 + time * 0.1);
-        y = Math.cos(theta) * radius * Math.sin(i * 0.05 + time * 0.1);
-        z = (Math.sin(i * 0.1) * 10) + (mid / 255 * 5);
-      } 
-      else if (cfg.mode === VisualizerMode.Wave) {
-        x = (i % 50 - 25) * 1.5;
-        z = (Math.floor(i / 50) - 20) * 1.5;
-        const waveHeight = 5 + (bass / 255 * 10 * mood);
-        const waveFreq = 0.2 + (mood * 0.5);
-        y = Math.sin(x * waveFreq + time * (2 + mood * 2)) * waveHeight + (normalizedFreq * 10);
-      } 
-      else if (cfg.mode === VisualizerMode.Grid) {
-        const gridSize = Math.ceil(Math.pow(count, 1/3));
-        const spacing = 3 + (bass / 100 * mood); 
-        const offset = (gridSize * spacing) / 2;
-        x = (i % gridSize) * spacing - offset;
-        y = (Math.floor((i / gridSize) % gridSize)) * spacing - offset;
-        z = (Math.floor(i / (gridSize * gridSize))) * spacing - offset;
-        if (mood > 0.7) {
-            x += (Math.random() - 0.5) * 0.5;
-            y += (Math.random() - 0.5) * 0.5;
-            z += (Math.random() - 0.5) * 0.5;
-        }
-      }
-      else if (cfg.mode === VisualizerMode.Chaos) {
-         x = (Math.sin(i)*20) * explosion;
-         y = (Math.cos(i)*20) * explosion;
-         z = (Math.sin(i*0.5)*20) * explosion;
+      // GPU resources: scene graph first, then passes and their render targets
+      particleField.dispose();
+      modeInstances.forEach((instance) => instance.dispose());
+      effectInstances.forEach((instance) => instance.dispose());
+      spectrumTexture.dispose();
+      leftSpectrumTexture.dispose();
+      rightSpectrumTexture.dispose();
+      disposeScene(scene);
+      bloomPass.dispose();
+      composer.dispose();
+      renderer.dispose();
+      renderer.forceContextLoss();
+      if (renderer.domElement.parentNode) {
+        renderer.domElement.parentNode.removeChild(renderer.domElement);
       }
 
-      // --- Mouse Interaction for Particles ---
-      // Simple repulsion/swirl force
-      const dx = x - mouseWorldX;
-      const dy = y - mouseWorldY;
-      const dist = Math.sqrt(dx*dx + dy*dy);
-      const repulsionRadius = 10;
-      
-      if (dist < repulsionRadius) {
-          const force = (1 - dist / repulsionRadius) * 5;
-          x += (dx / dist) * force;
-          y += (dy / dist) * force;
-          // Scale up particles near mouse
-          scale *= 1.5;
-      }
-
-      if (mood > 0.6 && normalizedFreq > 0.5) scale *= 1.5;
+      sceneRef.current = null;
+      cameraRef.current = null;
+      rendererRef.current = null;
+      composerRef.current = null;
+      bloomPassRef.current = null;
+      backgroundMaterialRef.current = null;
+      particleFieldRef.current = null;
+      spectrumTextureRef.current = null;
+      leftSpectrumTextureRef.current = null;
+      rightSpectrumTextureRef.current = null;
+      modeInstancesRef.current = new Map();
+      effectInstancesRef.current = new Map();
+      effectChainRef.current = [];
+      renderFrameRef.current = null;
+      lastFrameTimeRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); 
 
-      dummy.position.set(x, y, z);
-      
-      if (cfg.mode !== VisualizerMode.Ferrofluid) {
-          dummy.rotation.set(time + x, time + y, time + z);
-      } else {
-        dummy.lookAt(0,0,0);
-      }
-      
-      dummy.scale.set(scale, scale, scale);
-      dummy.updateMatrix();
-      mesh.setMatrixAt(i, dummy.matrix);
-
-      // Color
-      let mixFactor = normalizedFreq;
-      if (mood > 0.6) {
-          mixFactor = smoothstep(0.4, 0.6, normalizedFreq);
-      }
-      const mixedColor = cPrimary.clone().lerp(cSecondary, mixFactor);
-      if (bass > 230 && mood > 0.3) {
-        mixedColor.lerp(new THREE.Color(0xffffff), 0.5 * normalizedFreq);
-      }
-      
-      // Highlight near mouse
-      if (dist < repulsionRadius) {
-         mixedColor.lerp(new THREE.Color(0xffffff), 0.3);
-      }
+  // Swap the particle geometry in place when the geometry type changes
+  useEffect(() => {
+    if (!particleFieldRef.current || particleGeometryTypeRef.current === config.geometryType) return;
+    particleFieldRef.current.setGeometry(config.geometryType);
+    particleGeometryTypeRef.current = config.geometryType;
+  }, [config.geometryType]);
 
-      mesh.setColorAt(i, mixedColor);
-    }
-    
-    mesh.instanceMatrix.needsUpdate = true;
-    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
-  };
+  useEffect(() => {
+    particleCountRef.current = particleCount;
+    particleFieldRef.current?.setCount(particleCount);
+  }, [particleCount]);
 
-  // Re-instantiate particles when geometry type changes
   useEffect(() => {
-     if (!particlesRef.current || !sceneRef.current) return;
-     
-     // Dispose old
-     particlesRef.current.geometry.dispose();
-     
-     // Create new geometry based on config
-     let geometry: THREE.BufferGeometry;
-     switch (config.geometryType) {
-      case GeometryType.Sphere:
-        geometry = new THREE.SphereGeometry(0.5, 12, 12);
-        break;
-      case GeometryType.Tetrahedron:
-        geometry = new THREE.TetrahedronGeometry(0.6);
-        break;
-      case GeometryType.Octahedron:
-        geometry = new THREE.OctahedronGeometry(0.5);
-        break;
-      case GeometryType.Torus:
-        geometry = new THREE.TorusGeometry(0.4, 0.15, 8, 16);
-        break;
-      case GeometryType.Cone:
-        geometry = new THREE.ConeGeometry(0.4, 1, 16);
-        break;
-      case GeometryType.Box:
-      default:
-        geometry = new THREE.BoxGeometry(0.8, 0.8, 0.8);
-    }
-    
-    particlesRef.current.geometry = geometry;
+    hiddenRef.current = display === 'hidden';
+  }, [display]);
 
-  }, [config.geometryType]);
+  // Compile edits on their own first; a broken one is reported and the
+  // running shader stays. The render loop picks up the new body.
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const errors = checkBackgroundShader(renderer.getContext(), customShader);
+    if (!errors.length) validCustomShaderRef.current = customShader;
+    onShaderErrorsRef.current?.(errors);
+  }, [customShader]);
 
 
-  return <div ref={containerRef} className="absolute inset-0 z-0 bg-black" />;
-};
+  return <div ref={containerRef} className={`absolute inset-0 z-0 bg-black ${DISPLAY_CLASSES[display]}`} />;
+});
 
 export default ThreeScene;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+
+// Feedback trails: every frame keeps a fading copy of the previous ones.
+// Intensity sets how long the trails last, the bass stretches them.
+
+const MAX_DAMP = 0.985; // Above this the trails never clear
+
+const afterimageEffect: PostEffectPlugin = {
+  type: EffectType.Afterimage,
+  name: 'Afterimage',
+  order: 0,
+  description: 'Feedback trails behind everything that moves, longer on the bass. Dreamy, psychedelic, ambient.',
+  keywords: ['trail', 'trails', 'afterimage', 'feedback', 'echo', 'ghost', 'ghosting', 'smear', 'dreamy', 'motion'],
+  create: () => {
+    const pass = new AfterimagePass();
+
+    return {
+      pass,
+      update: ({ intensity, reactivity }, { normalizedBass }) => {
+        pass.damp = Math.min(MAX_DAMP, 0.75 + intensity * 0.2 + reactivity * normalizedBass * 0.05);
+      },
+      reset: (renderer) => {
+        // Clear the accumulated history (three keeps it in _textureOld)
+        const previous = renderer.getRenderTarget();
+        const clearColor = renderer.getClearColor(new THREE.Color());
+        const clearAlpha = renderer.getClearAlpha();
+        renderer.setClearColor(0x000000, 0);
+        renderer.setRenderTarget(pass._textureOld);
+        renderer.clear();
+        renderer.setRenderTarget(previous);
+        renderer.setClearColor(clearColor, clearAlpha);
+      },
+      dispose: () => pass.dispose()
+    };
+  }
+};
+
+export default afterimageEffect;
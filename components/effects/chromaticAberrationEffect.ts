@@ -0,0 +1,40 @@
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+import { createShaderPass } from './shaderEffect';
+
+// Lens style color fringing: red and blue pull apart towards the edges and
+// spread further on loud bass.
+
+const FRAGMENT_SHADER = `
+uniform sampler2D tDiffuse;
+uniform float uAmount;
+varying vec2 vUv;
+void main() {
+  vec2 offset = (vUv - 0.5) * uAmount;
+  vec4 color = texture2D(tDiffuse, vUv);
+  color.r = texture2D(tDiffuse, vUv + offset).r;
+  color.b = texture2D(tDiffuse, vUv - offset).b;
+  gl_FragColor = color;
+}
+`;
+
+const chromaticAberrationEffect: PostEffectPlugin = {
+  type: EffectType.ChromaticAberration,
+  name: 'Chromatic Aberration',
+  order: 1,
+  description: 'Color fringes towards the screen edges, wider on the bass. Lo-fi, lens, analog, hazy.',
+  keywords: ['chromatic', 'aberration', 'fringe', 'fringing', 'lens', 'prism', 'hazy', 'lofi', 'lo-fi'],
+  create: () => {
+    const pass = createShaderPass(FRAGMENT_SHADER, { uAmount: { value: 0 } });
+
+    return {
+      pass,
+      update: ({ intensity, reactivity }, { normalizedBass, beatPulse }) => {
+        pass.uniforms.uAmount.value = intensity * 0.04 * (1 + reactivity * (normalizedBass * 2 + beatPulse));
+      },
+      dispose: () => pass.dispose()
+    };
+  }
+};
+
+export default chromaticAberrationEffect;
@@ -0,0 +1,45 @@
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+import { createShaderPass } from './shaderEffect';
+
+// Animated film grain with faint scanlines; the highs make it coarser.
+
+const FRAGMENT_SHADER = `
+uniform sampler2D tDiffuse;
+uniform float uAmount;
+uniform float uTime;
+varying vec2 vUv;
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+void main() {
+  vec4 color = texture2D(tDiffuse, vUv);
+  float grain = hash(vUv * 1000.0 + fract(uTime) * 100.0) - 0.5;
+  float scanline = sin(vUv.y * 800.0) * 0.5 + 0.5;
+  color.rgb += grain * uAmount;
+  color.rgb *= 1.0 - scanline * uAmount * 0.3;
+  gl_FragColor = color;
+}
+`;
+
+const filmGrainEffect: PostEffectPlugin = {
+  type: EffectType.FilmGrain,
+  name: 'Film Grain',
+  order: 3,
+  description: 'Flickering film grain and scanlines, rougher on the highs. Vintage, gritty, noisy, VHS.',
+  keywords: ['grain', 'film', 'grainy', 'vintage', 'retro', 'vhs', 'analog', 'gritty', 'noise', 'noisy', 'old'],
+  create: () => {
+    const pass = createShaderPass(FRAGMENT_SHADER, { uAmount: { value: 0 }, uTime: { value: 0 } });
+
+    return {
+      pass,
+      update: ({ intensity, reactivity }, { time, audio }) => {
+        pass.uniforms.uTime.value = time;
+        pass.uniforms.uAmount.value = intensity * 0.25 * (1 + reactivity * (audio.treble / 255) * 1.5);
+      },
+      dispose: () => pass.dispose()
+    };
+  }
+};
+
+export default filmGrainEffect;
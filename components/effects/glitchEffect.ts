@@ -0,0 +1,62 @@
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+import { createShaderPass } from './shaderEffect';
+
+// Digital glitch bursts: on beats and onsets horizontal slices tear sideways
+// and the channels split, then it settles. Reactivity is the chance a hit
+// glitches; the burst pattern comes from the scene's random source so
+// offline renders repeat exactly.
+
+const FRAGMENT_SHADER = `
+uniform sampler2D tDiffuse;
+uniform float uStrength;
+uniform float uSeed;
+varying vec2 vUv;
+float hash(float n) {
+  return fract(sin(n) * 43758.5453);
+}
+void main() {
+  vec2 uv = vUv;
+  float band = floor(uv.y * 24.0);
+  float torn = step(1.0 - uStrength * 0.6, hash(band + uSeed));
+  uv.x += (hash(band * 1.7 + uSeed) - 0.5) * 0.2 * uStrength * torn;
+  float split = 0.02 * uStrength * torn;
+  vec4 color = texture2D(tDiffuse, uv);
+  color.r = texture2D(tDiffuse, uv + vec2(split, 0.0)).r;
+  color.b = texture2D(tDiffuse, uv - vec2(split, 0.0)).b;
+  gl_FragColor = color;
+}
+`;
+
+const glitchEffect: PostEffectPlugin = {
+  type: EffectType.Glitch,
+  name: 'Glitch',
+  order: 5,
+  description: 'Torn, color split slices on hits. Harsh, digital, industrial, broken, aggressive.',
+  keywords: ['glitch', 'glitchy', 'digital', 'broken', 'corrupt', 'corrupted', 'datamosh', 'industrial', 'harsh', 'error'],
+  create: () => {
+    const pass = createShaderPass(FRAGMENT_SHADER, { uStrength: { value: 0 }, uSeed: { value: 0 } });
+    let strength = 0;
+
+    return {
+      pass,
+      update: ({ intensity, reactivity }, { step, audio, random }) => {
+        strength *= Math.pow(0.85, step);
+        if ((audio.beat || audio.onset) && random() < 0.2 + reactivity * 0.8) {
+          strength = intensity;
+          pass.uniforms.uSeed.value = random() * 100;
+        }
+        pass.uniforms.uStrength.value = strength;
+        // Nothing to tear between bursts
+        pass.enabled = strength > 0.01;
+      },
+      reset: () => {
+        strength = 0;
+        pass.uniforms.uSeed.value = 0;
+      },
+      dispose: () => pass.dispose()
+    };
+  }
+};
+
+export default glitchEffect;
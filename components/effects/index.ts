@@ -0,0 +1,30 @@
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+import afterimageEffect from './afterimageEffect';
+import chromaticAberrationEffect from './chromaticAberrationEffect';
+import rgbShiftEffect from './rgbShiftEffect';
+import filmGrainEffect from './filmGrainEffect';
+import kaleidoscopeEffect from './kaleidoscopeEffect';
+import glitchEffect from './glitchEffect';
+import vignetteEffect from './vignetteEffect';
+
+// Post-processing effect registry. An effect is one file that default-exports
+// a PostEffectPlugin for one EffectType; listing it here puts it in the
+// renderer's chain, the effect stack editor, the generator schema and
+// validation. VisualConfig.effects decides which run and in what order.
+
+export const EFFECTS: PostEffectPlugin[] = [
+  afterimageEffect,
+  chromaticAberrationEffect,
+  rgbShiftEffect,
+  filmGrainEffect,
+  kaleidoscopeEffect,
+  glitchEffect,
+  vignetteEffect
+].sort((a, b) => a.order - b.order);
+
+export const EFFECT_TYPES: EffectType[] = EFFECTS.map((effect) => effect.type);
+
+export const getEffect = (type: string): PostEffectPlugin | undefined => EFFECTS.find((effect) => effect.type === type);
+
+export type { PostEffectPlugin, EffectInstance, EffectFrame } from './types';
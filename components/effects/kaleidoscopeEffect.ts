@@ -0,0 +1,58 @@
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+import { createShaderPass } from './shaderEffect';
+
+// Mirrors the frame into wedges around the center. Intensity adds wedges,
+// the mood turns the pattern and beats kick it forward.
+
+const FRAGMENT_SHADER = `
+uniform sampler2D tDiffuse;
+uniform float uSides;
+uniform float uAngle;
+uniform float uMix;
+uniform float uAspect;
+varying vec2 vUv;
+void main() {
+  vec2 p = (vUv - 0.5) * vec2(uAspect, 1.0);
+  float radius = length(p);
+  float segment = 6.28318530718 / uSides;
+  float angle = mod(atan(p.y, p.x) + uAngle, segment);
+  angle = min(angle, segment - angle);
+  vec2 uv = vec2(cos(angle), sin(angle)) * radius / vec2(uAspect, 1.0) + 0.5;
+  gl_FragColor = mix(texture2D(tDiffuse, vUv), texture2D(tDiffuse, uv), uMix);
+}
+`;
+
+const kaleidoscopeEffect: PostEffectPlugin = {
+  type: EffectType.Kaleidoscope,
+  name: 'Kaleidoscope',
+  order: 4,
+  description: 'Mirrors the picture into rotating wedges, more wedges with intensity. Psychedelic, trippy, symmetric.',
+  keywords: ['kaleidoscope', 'mirror', 'mirrored', 'symmetry', 'symmetric', 'mandala', 'trippy', 'fractal'],
+  create: () => {
+    const pass = createShaderPass(FRAGMENT_SHADER, {
+      uSides: { value: 6 },
+      uAngle: { value: 0 },
+      uMix: { value: 0 },
+      uAspect: { value: 1 }
+    });
+    pass.setSize = (width: number, height: number) => {
+      pass.uniforms.uAspect.value = width / height;
+    };
+
+    return {
+      pass,
+      update: ({ intensity, reactivity }, { step, mood, beatPulse }) => {
+        pass.uniforms.uSides.value = 2 + Math.round(intensity * 10);
+        pass.uniforms.uMix.value = Math.min(1, intensity * 4);
+        pass.uniforms.uAngle.value += (0.002 + reactivity * (mood * 0.006 + beatPulse * 0.02)) * step;
+      },
+      reset: () => {
+        pass.uniforms.uAngle.value = 0;
+      },
+      dispose: () => pass.dispose()
+    };
+  }
+};
+
+export default kaleidoscopeEffect;
@@ -0,0 +1,45 @@
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+import { createShaderPass } from './shaderEffect';
+
+// The color channels jump apart on beats, each beat in a new direction.
+// Reactivity trades a constant shift for one that only hits on the beat.
+
+const FRAGMENT_SHADER = `
+uniform sampler2D tDiffuse;
+uniform float uAmount;
+uniform float uAngle;
+varying vec2 vUv;
+void main() {
+  vec2 offset = uAmount * vec2(cos(uAngle), sin(uAngle));
+  vec4 color = texture2D(tDiffuse, vUv);
+  color.r = texture2D(tDiffuse, vUv + offset).r;
+  color.b = texture2D(tDiffuse, vUv - offset).b;
+  gl_FragColor = color;
+}
+`;
+
+const rgbShiftEffect: PostEffectPlugin = {
+  type: EffectType.RgbShift,
+  name: 'RGB Shift',
+  order: 2,
+  description: 'Color channels split apart on every beat. Punchy, edm, hip-hop, energetic drops.',
+  keywords: ['rgb', 'shift', 'split', 'channel', 'punchy', 'drop', 'hit', 'hits', 'stutter'],
+  create: () => {
+    const pass = createShaderPass(FRAGMENT_SHADER, { uAmount: { value: 0 }, uAngle: { value: 0 } });
+
+    return {
+      pass,
+      update: ({ intensity, reactivity }, { audio, beatPulse, random }) => {
+        if (audio.beat) pass.uniforms.uAngle.value = random() * Math.PI * 2;
+        pass.uniforms.uAmount.value = intensity * 0.02 * (1 - reactivity + reactivity * beatPulse);
+      },
+      reset: () => {
+        pass.uniforms.uAngle.value = 0;
+      },
+      dispose: () => pass.dispose()
+    };
+  }
+};
+
+export default rgbShiftEffect;
@@ -0,0 +1,19 @@
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+
+// Most effects are a single full-screen fragment shader over the previous
+// pass. `fragmentShader` samples the frame from `tDiffuse` at `vUv`.
+
+const VERTEX_SHADER = `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+export const createShaderPass = (fragmentShader: string, uniforms: Record<string, { value: unknown }>) =>
+  new ShaderPass({
+    uniforms: { tDiffuse: { value: null }, ...uniforms },
+    vertexShader: VERTEX_SHADER,
+    fragmentShader
+  });
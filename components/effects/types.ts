@@ -0,0 +1,34 @@
+import * as THREE from 'three';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { AudioData, EffectConfig, EffectType } from '../../types';
+import { RandomSource } from '../../services/random';
+
+// Per-frame state handed to every effect
+export interface EffectFrame {
+  time: number;       // Animation time, same clock as the modes
+  step: number;       // Frame length in 60fps frames, scales per-frame increments
+  audio: AudioData;
+  mood: number;       // 0 (calm) .. 1 (intense)
+  normalizedBass: number;
+  beatPulse: number;  // 1 on a beat, decaying
+  random: RandomSource; // Seeded during offline export
+}
+
+// A pass in the composer chain plus how the config and the audio drive it
+export interface EffectInstance {
+  pass: Pass;
+  // Only called while the effect is in the chain with an intensity above 0
+  update: (settings: EffectConfig, frame: EffectFrame) => void;
+  // Back to the state right after create, for deterministic offline renders
+  reset?: (renderer: THREE.WebGLRenderer) => void;
+  dispose: () => void;
+}
+
+export interface PostEffectPlugin {
+  type: EffectType;
+  name: string;
+  order: number;        // Position in the effect picker
+  description: string;  // One line for the generator prompt
+  keywords: string[];   // Words the offline interpreter associates with the effect
+  create: () => EffectInstance;
+}
@@ -0,0 +1,41 @@
+import { EffectType } from '../../types';
+import { PostEffectPlugin } from './types';
+import { createShaderPass } from './shaderEffect';
+
+// Darkens the corners; the bass pushes the dark edge outwards so the frame
+// breathes with the music.
+
+const FRAGMENT_SHADER = `
+uniform sampler2D tDiffuse;
+uniform float uDarkness;
+uniform float uSpread;
+varying vec2 vUv;
+void main() {
+  vec4 color = texture2D(tDiffuse, vUv);
+  float shade = smoothstep(0.25 * uSpread, 0.8 * uSpread, distance(vUv, vec2(0.5)));
+  color.rgb *= 1.0 - shade * uDarkness;
+  gl_FragColor = color;
+}
+`;
+
+const vignetteEffect: PostEffectPlugin = {
+  type: EffectType.Vignette,
+  name: 'Vignette',
+  order: 6,
+  description: 'Dark breathing corners that open up on the bass. Cinematic, moody, intimate, focused.',
+  keywords: ['vignette', 'cinematic', 'moody', 'intimate', 'focus', 'focused', 'spotlight'],
+  create: () => {
+    const pass = createShaderPass(FRAGMENT_SHADER, { uDarkness: { value: 0 }, uSpread: { value: 1 } });
+
+    return {
+      pass,
+      update: ({ intensity, reactivity }, { normalizedBass }) => {
+        pass.uniforms.uDarkness.value = intensity;
+        pass.uniforms.uSpread.value = 1 + reactivity * normalizedBass * 0.4;
+      },
+      dispose: () => pass.dispose()
+    };
+  }
+};
+
+export default vignetteEffect;
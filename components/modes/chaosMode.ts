@@ -0,0 +1,20 @@
+import { VisualizerMode, GeometryType } from '../../types';
+import { VisualizerModePlugin } from './types';
+
+const chaosMode: VisualizerModePlugin = {
+  id: VisualizerMode.Chaos,
+  name: 'Chaos',
+  order: 3,
+  description: 'Random explosion, good for rock/experimental.',
+  preferredGeometry: GeometryType.Tetrahedron,
+  keywords: ['rock', 'punk', 'experimental', 'noise', 'explosion', 'explode', 'chaos', 'chaotic', 'hardcore', 'breakcore', 'riot', 'mosh'],
+  palette: ['#fb7a24', '#f20d0d'],
+  particles: {
+    glsl: /* glsl */ `
+      float explosion = 1.0 + (uBass / 50.0) * (0.5 + uMood);
+      p = vec3(sin(i) * 20.0, cos(i) * 20.0, sin(i * 0.5) * 20.0) * explosion;
+    `
+  }
+};
+
+export default chaosMode;
@@ -0,0 +1,35 @@
+import { VisualizerMode, GeometryType } from '../../types';
+import { VisualizerModePlugin } from './types';
+
+const ferrofluidMode: VisualizerModePlugin = {
+  id: VisualizerMode.Ferrofluid,
+  name: 'Ferrofluid',
+  order: 4,
+  description: 'Spiky, organic, magnetic liquid sphere. Good for bass-heavy/dubstep/dark.',
+  preferredGeometry: GeometryType.Cone,
+  keywords: ['bass', 'dubstep', 'dark', 'heavy', 'wobble', 'magnetic', 'ferrofluid', 'metal', 'drop', 'trap', 'grime', 'spiky', 'sub'],
+  palette: ['#9947f0', '#d41135'],
+  particles: {
+    glsl: /* glsl */ `
+      vec3 s = spherePoint(i);
+      float radiusBase = 12.0;
+      // Spikes shoot out on each beat
+      float noiseAmp = (4.0 + (uBass / 255.0) * 8.0) * (1.0 + uBeatPulse * 0.8);
+      // Spikes grow on the side the sound is panned to
+      float lean = dot(s, uPanAxis) * uBalance;
+      noiseAmp *= max(0.2, 1.0 + lean * 1.5);
+      float n1 = simpleNoise(vec3(s.x * 3.0 + uTime, s.y * 3.0 + uTime, s.z * 3.0));
+      float n2 = simpleNoise(vec3(s.x * 10.0, s.y * 10.0 + uTime * 2.0, s.z * 10.0));
+      float spike = max(0.0, n1 + n2 * 0.5);
+      float displacement = radiusBase + spike * noiseAmp * (0.5 + uMood);
+      // ...and bend towards it
+      p = s * displacement + uPanAxis * uBalance * spike * noiseAmp * 0.4;
+      scale = 1.2 - (displacement - radiusBase) / 10.0;
+    `,
+    // Spikes point outwards and the blob turns slowly
+    facesOrigin: true,
+    rotationFactor: 0.2
+  }
+};
+
+export default ferrofluidMode;
@@ -0,0 +1,29 @@
+import { VisualizerMode, GeometryType } from '../../types';
+import { VisualizerModePlugin } from './types';
+
+const gridMode: VisualizerModePlugin = {
+  id: VisualizerMode.Grid,
+  name: 'Grid',
+  order: 2,
+  description: 'Structured matrix, good for techno/industrial.',
+  preferredGeometry: GeometryType.Box,
+  keywords: ['techno', 'industrial', 'minimal', 'house', 'matrix', 'cyber', 'cyberpunk', 'digital', 'structured', 'machine', 'robot'],
+  palette: ['#80f20d', '#00ffff'],
+  particles: {
+    glsl: /* glsl */ `
+      float gridSize = ceil(pow(uCount, 1.0 / 3.0) - 0.001);
+      float spacing = (3.0 + uBass / 100.0 * uMood) * 14.0 / gridSize;
+      float offset = gridSize * spacing * 0.5;
+      p.x = mod(i, gridSize) * spacing - offset;
+      p.y = mod(floor(i / gridSize), gridSize) * spacing - offset;
+      p.z = floor(i / (gridSize * gridSize)) * spacing - offset;
+      if (uMood > 0.7) {
+        // Per-frame jitter, seeded by particle index and time
+        float seed = i * 3.0 + floor(uTime * 200.0);
+        p += (vec3(hash(seed), hash(seed + 1.0), hash(seed + 2.0)) - 0.5) * 0.5;
+      }
+    `
+  }
+};
+
+export default gridMode;
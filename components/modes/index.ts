@@ -0,0 +1,38 @@
+import { VisualizerModePlugin } from './types';
+import orbitMode from './orbitMode';
+import waveMode from './waveMode';
+import gridMode from './gridMode';
+import chaosMode from './chaosMode';
+import ferrofluidMode from './ferrofluidMode';
+import surfaceMode from './surfaceMode';
+import oscilloscopeMode from './oscilloscopeMode';
+import spectrumRingMode from './spectrumRingMode';
+import spectrogramMode from './spectrogramMode';
+
+// Mode registry. A mode is one file that default-exports a
+// VisualizerModePlugin; listing it here is all it takes to make it show up in
+// the renderer, the mode switcher, the generator schema and validation.
+
+export const MODES: VisualizerModePlugin[] = [
+  orbitMode,
+  waveMode,
+  gridMode,
+  chaosMode,
+  ferrofluidMode,
+  surfaceMode,
+  oscilloscopeMode,
+  spectrumRingMode,
+  spectrogramMode
+].sort((a, b) => a.order - b.order);
+
+export const MODE_IDS: string[] = MODES.map((mode) => mode.id);
+
+export const getMode = (id: string): VisualizerModePlugin | undefined => MODES.find((mode) => mode.id === id);
+
+// Modes with a particle layout, in shader branch order
+export const PARTICLE_MODES = MODES.filter((mode) => mode.particles);
+
+// Shader side layout id of a mode, -1 if it has no particle layout
+export const particleModeIndex = (id: string) => PARTICLE_MODES.findIndex((mode) => mode.id === id);
+
+export type { VisualizerModePlugin, ModeInstance, FrameContext, ModeResources, ParticleLayout } from './types';
@@ -0,0 +1,32 @@
+// Resamples a byte spectrum onto `out.length` slots spaced logarithmically,
+// with the same mapping as the SURFACE shader: the bass gets room and the
+// mostly empty top quarter of the analyser range is left out.
+
+const LOG_BASE = 64;
+const RANGE = 0.75;
+
+export const resampleLogSpectrum = (frequencyData: Uint8Array, out: Float32Array) => {
+  const last = frequencyData.length - 1;
+  const position = (t: number) => ((Math.pow(LOG_BASE, t) - 1) / (LOG_BASE - 1)) * RANGE * last;
+
+  for (let i = 0; i < out.length; i++) {
+    const start = position(i / out.length);
+    const end = position((i + 1) / out.length);
+    const first = Math.ceil(start);
+    const stop = Math.min(last, Math.floor(end));
+    let value: number;
+    if (stop >= first) {
+      // Wide slot: strongest bin so narrow peaks are not averaged away
+      value = 0;
+      for (let b = first; b <= stop; b++) value = Math.max(value, frequencyData[b]);
+    } else {
+      // Narrower than a bin: interpolate at the center
+      const center = (start + end) / 2;
+      const i0 = Math.floor(center);
+      const i1 = Math.min(last, i0 + 1);
+      value = frequencyData[i0] + (frequencyData[i1] - frequencyData[i0]) * (center - i0);
+    }
+    out[i] = value / 255;
+  }
+  return out;
+};
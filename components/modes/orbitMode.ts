@@ -0,0 +1,28 @@
+import { VisualizerMode, GeometryType } from '../../types';
+import { VisualizerModePlugin } from './types';
+
+const orbitMode: VisualizerModePlugin = {
+  id: VisualizerMode.Orbit,
+  name: 'Orbit',
+  order: 0,
+  description: 'Spherical arrangement, good for electronic/pop.',
+  preferredGeometry: GeometryType.Octahedron,
+  keywords: ['electronic', 'pop', 'edm', 'synth', 'synthwave', 'space', 'cosmic', 'galaxy', 'planet', 'dance', 'disco', 'stars'],
+  palette: ['#00ffff', '#ff00f7'],
+  particles: {
+    glsl: /* glsl */ `
+      float theta = i * 0.1 + uTime * (uRotationSpeed + uMood);
+      float expansion = (uBass / 255.0) * (5.0 + uMood * 10.0);
+      float radius = 10.0 + expansion + rand1 * uMood * 5.0;
+      p.x = sin(theta) * radius * cos(i * 0.05 + uTime * 0.1);
+      p.y = cos(theta) * radius * sin(i * 0.05 + uTime * 0.1);
+      p.z = sin(i * 0.1) * 10.0 + uMid / 255.0 * 5.0;
+      // Skew towards the louder side and stretch sideways with stereo width
+      float along = dot(p, uPanAxis);
+      float louder = max(0.0, uBalance * sign(along)); // > 0 on the louder side
+      p += uPanAxis * (uBalance * (4.0 + expansion) + along * (louder + uWidth) * 0.5);
+    `
+  }
+};
+
+export default orbitMode;
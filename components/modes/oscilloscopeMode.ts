@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+import { VisualizerMode, GeometryType } from '../../types';
+import { createParticleGeometry } from '../particleGeometry';
+import { VisualizerModePlugin } from './types';
+
+// 3D oscilloscope: the current waveform is a glowing ribbon and the previous
+// ones trail off behind it, so the shape of the sound reads as a landscape.
+
+const POINTS = 256;
+const TRAILS = 16;
+const LENGTH = 44;
+const AMPLITUDE = 9;
+const TRAIL_SPACING = 1.6;
+const BEADS = 48; // Particle geometry riding on the live trace
+
+// First rising zero crossing in the first half of the buffer, so periodic
+// sounds stand still like on a triggered scope
+const findTrigger = (waveform: Uint8Array) => {
+  for (let i = 1; i < waveform.length / 2; i++) {
+    if (waveform[i - 1] < 128 && waveform[i] >= 128) return i;
+  }
+  return 0;
+};
+
+const oscilloscopeMode: VisualizerModePlugin = {
+  id: VisualizerMode.Oscilloscope,
+  name: 'Oscilloscope',
+  order: 6,
+  description: 'Glowing waveform ribbon with trailing echoes, a live 3D oscilloscope. Good for synth/minimal/experimental electronic.',
+  preferredGeometry: GeometryType.Box,
+  keywords: ['oscilloscope', 'waveform', 'scope', 'signal', 'analog', 'modular', 'synth', 'line', 'retro', 'vector', 'laser'],
+  palette: ['#14ff72', '#00b3ff'],
+  create: () => {
+    const vertexCount = TRAILS * POINTS * 2;
+    const positions = new Float32Array(vertexCount * 3);
+    const colors = new Float32Array(vertexCount * 3);
+    // Ring buffer of past waveforms, -1..1
+    const history = Array.from({ length: TRAILS }, () => new Float32Array(POINTS));
+    let head = 0;
+    let sinceLastTrail = 0;
+    const color = new THREE.Color();
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3).setUsage(THREE.DynamicDrawUsage));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3).setUsage(THREE.DynamicDrawUsage));
+    const indices: number[] = [];
+    for (let row = 0; row < TRAILS; row++) {
+      for (let j = 0; j < POINTS - 1; j++) {
+        const a = (row * POINTS + j) * 2;
+        indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+      }
+    }
+    geometry.setIndex(indices);
+
+    // Additive, so darker trail colors simply read as fainter
+    const material = new THREE.MeshBasicMaterial({
+      vertexColors: true,
+      side: THREE.DoubleSide,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.frustumCulled = false;
+    mesh.visible = false;
+
+    let beadType: GeometryType | null = null;
+    const beadMaterial = new THREE.MeshBasicMaterial();
+    const beads = new THREE.InstancedMesh(createParticleGeometry(GeometryType.Box), beadMaterial, BEADS);
+    beads.frustumCulled = false;
+    mesh.add(beads);
+    const dummy = new THREE.Object3D();
+
+    return {
+      init: (scene) => {
+        scene.add(mesh);
+      },
+      update: ({ weight, step, time, audio, config, primary, secondary, beatPulse }) => {
+        mesh.visible = weight > 0;
+        if (weight <= 0) return;
+
+        // A new trail every other 60fps frame; the front ribbon is always live
+        sinceLastTrail += step;
+        if (sinceLastTrail >= 2) {
+          sinceLastTrail = 0;
+          head = (head + 1) % TRAILS;
+        }
+        const waveform = audio.timeDomainData;
+        const start = findTrigger(waveform);
+        const stride = waveform.length / 2 / POINTS;
+        const current = history[head];
+        for (let j = 0; j < POINTS; j++) {
+          current[j] = (waveform[Math.floor(start + j * stride)] - 128) / 128;
+        }
+
+        const thickness = 0.08 + config.particleSize * 0.25 + beatPulse * 0.2;
+        const gain = AMPLITUDE * config.sensitivity;
+        let v = 0;
+        for (let age = 0; age < TRAILS; age++) {
+          const row = history[(head - age + TRAILS) % TRAILS];
+          const fade = Math.pow(1 - age / TRAILS, 1.6);
+          const z = -age * TRAIL_SPACING;
+          for (let j = 0; j < POINTS; j++) {
+            const x = (j / (POINTS - 1) - 0.5) * LENGTH;
+            const y = row[j] * gain;
+            // Gentle sway so the ribbon has depth from every camera angle
+            const bend = Math.sin(x * 0.12 + time * 2 + age * 0.3) * 1.5;
+            color.copy(primary).lerp(secondary, Math.min(1, Math.abs(row[j]) * 2)).multiplyScalar(fade);
+            for (const offset of [thickness, -thickness]) {
+              positions[v * 3] = x;
+              positions[v * 3 + 1] = y + offset;
+              positions[v * 3 + 2] = z + bend;
+              colors[v * 3] = color.r;
+              colors[v * 3 + 1] = color.g;
+              colors[v * 3 + 2] = color.b;
+              v++;
+            }
+          }
+        }
+        geometry.attributes.position.needsUpdate = true;
+        geometry.attributes.color.needsUpdate = true;
+
+        if (config.geometryType !== beadType) {
+          beads.geometry.dispose();
+          beads.geometry = createParticleGeometry(config.geometryType);
+          beadType = config.geometryType;
+        }
+        for (let b = 0; b < BEADS; b++) {
+          const j = Math.floor((b + 0.5) * (POINTS / BEADS));
+          const x = (j / (POINTS - 1) - 0.5) * LENGTH;
+          dummy.position.set(x, current[j] * gain, Math.sin(x * 0.12 + time * 2) * 1.5);
+          dummy.rotation.set(time * 3 + b, time * 2, 0);
+          dummy.scale.setScalar(config.particleSize * (0.6 + Math.abs(current[j]) * 2 + beatPulse * 0.5));
+          dummy.updateMatrix();
+          beads.setMatrixAt(b, dummy.matrix);
+        }
+        beads.instanceMatrix.needsUpdate = true;
+        beadMaterial.color.copy(secondary);
+
+        mesh.scale.setScalar(weight);
+        mesh.rotation.y += 0.002 * config.rotationSpeed * step;
+      },
+      reset: () => {
+        history.forEach((row) => row.fill(0));
+        head = 0;
+        sinceLastTrail = 0;
+        mesh.rotation.set(0, 0, 0);
+      },
+      dispose: () => {
+        mesh.removeFromParent();
+        geometry.dispose();
+        material.dispose();
+        beads.geometry.dispose();
+        beadMaterial.dispose();
+      }
+    };
+  }
+};
+
+export default oscilloscopeMode;
@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+import { VisualizerMode, GeometryType } from '../../types';
+import { createParticleGeometry } from '../particleGeometry';
+import { VisualizerModePlugin } from './types';
+import { resampleLogSpectrum } from './logSpectrum';
+
+// Scrolling 3D spectrogram: the newest spectrum is the front edge of a height
+// field and older ones roll back into the distance, lows on the left.
+// Markers in the particle geometry ride the front ridge.
+
+const COLUMNS = 128;
+const ROWS = 96;
+const WIDTH = 40;
+const DEPTH = 48;
+const MAX_HEIGHT = 10;
+const FRAMES_PER_ROW = 2; // At 60fps a new row every other frame
+const MARKERS = 32;       // Particle geometry riding on the front row
+
+const spectrogramMode: VisualizerModePlugin = {
+  id: VisualizerMode.Spectrogram,
+  name: 'Spectrogram',
+  order: 8,
+  description: 'Scrolling 3D spectrogram terrain, the track history as mountains. Good for ambient/classical/long evolving pieces.',
+  preferredGeometry: GeometryType.Sphere,
+  keywords: ['spectrogram', 'terrain', 'landscape', 'mountain', 'mountains', 'history', 'scrolling', 'classical', 'orchestral', 'piano', 'evolving', 'drone'],
+  palette: ['#2b59ff', '#ff8a3d'],
+  create: () => {
+    // history[row * COLUMNS + col], row 0 is the newest
+    const history = new Float32Array(ROWS * COLUMNS);
+    const latest = new Float32Array(COLUMNS);
+    let sinceLastRow = 0;
+    const color = new THREE.Color();
+
+    // Plane in XY, rotated flat; local y is depth and z is height
+    const geometry = new THREE.PlaneGeometry(WIDTH, DEPTH, COLUMNS - 1, ROWS - 1);
+    const positions = geometry.attributes.position;
+    positions.setUsage(THREE.DynamicDrawUsage);
+    const colors = new Float32Array(positions.count * 3);
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3).setUsage(THREE.DynamicDrawUsage));
+
+    const material = new THREE.MeshStandardMaterial({
+      vertexColors: true,
+      metalness: 0.2,
+      roughness: 0.6,
+      side: THREE.DoubleSide,
+      flatShading: true
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.rotation.x = -Math.PI / 2.4;
+    mesh.position.y = -6;
+    mesh.frustumCulled = false;
+    mesh.visible = false;
+
+    let markerType: GeometryType | null = null;
+    const markerMaterial = new THREE.MeshBasicMaterial();
+    const markers = new THREE.InstancedMesh(createParticleGeometry(GeometryType.Sphere), markerMaterial, MARKERS);
+    markers.frustumCulled = false;
+    mesh.add(markers);
+    const dummy = new THREE.Object3D();
+
+    return {
+      init: (scene) => {
+        scene.add(mesh);
+      },
+      update: ({ weight, step, time, audio, config, primary, secondary, beatPulse }) => {
+        mesh.visible = weight > 0;
+        if (weight <= 0) return;
+
+        sinceLastRow += step;
+        if (sinceLastRow >= FRAMES_PER_ROW) {
+          sinceLastRow = 0;
+          history.copyWithin(COLUMNS, 0, (ROWS - 1) * COLUMNS);
+        }
+        // The front row follows the music every frame
+        resampleLogSpectrum(audio.frequencyData, latest);
+        history.set(latest, 0);
+
+        // PlaneGeometry rows go from far (top) to near (bottom)
+        const gain = config.sensitivity;
+        for (let row = 0; row < ROWS; row++) {
+          const age = ROWS - 1 - row;
+          for (let col = 0; col < COLUMNS; col++) {
+            const value = Math.min(1, history[age * COLUMNS + col] * gain);
+            const v = row * COLUMNS + col;
+            positions.setZ(v, value * MAX_HEIGHT);
+            color.copy(primary).lerp(secondary, value).multiplyScalar(0.15 + value * 0.85);
+            colors[v * 3] = color.r;
+            colors[v * 3 + 1] = color.g;
+            colors[v * 3 + 2] = color.b;
+          }
+        }
+        positions.needsUpdate = true;
+        geometry.attributes.color.needsUpdate = true;
+        geometry.computeVertexNormals();
+
+        if (config.geometryType !== markerType) {
+          markers.geometry.dispose();
+          markers.geometry = createParticleGeometry(config.geometryType);
+          markerType = config.geometryType;
+        }
+        for (let m = 0; m < MARKERS; m++) {
+          const col = Math.floor((m + 0.5) * (COLUMNS / MARKERS));
+          const value = Math.min(1, latest[col] * gain);
+          // Local space of the plane: x across, y towards the front, z up
+          dummy.position.set((col / (COLUMNS - 1) - 0.5) * WIDTH, -DEPTH / 2, value * MAX_HEIGHT + 0.5);
+          dummy.rotation.set(time * 3 + m, time * 2, 0);
+          dummy.scale.setScalar(config.particleSize * (0.5 + value * 1.5 + beatPulse * 0.5));
+          dummy.updateMatrix();
+          markers.setMatrixAt(m, dummy.matrix);
+        }
+        markers.instanceMatrix.needsUpdate = true;
+        markerMaterial.color.copy(secondary);
+
+        mesh.scale.setScalar(weight);
+      },
+      reset: () => {
+        history.fill(0);
+        sinceLastRow = 0;
+      },
+      dispose: () => {
+        mesh.removeFromParent();
+        geometry.dispose();
+        material.dispose();
+        markers.geometry.dispose();
+        markerMaterial.dispose();
+      }
+    };
+  }
+};
+
+export default spectrogramMode;
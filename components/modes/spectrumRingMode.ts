@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { VisualizerMode, GeometryType } from '../../types';
+import { createParticleGeometry } from '../particleGeometry';
+import { VisualizerModePlugin } from './types';
+import { resampleLogSpectrum } from './logSpectrum';
+
+// Classic spectrum analyzer bent into a circle: one bar per log-spaced slot,
+// lows to highs going round, with falling peak caps on top.
+
+const BAR_COUNT = 96;
+const RADIUS = 14;
+const MAX_HEIGHT = 14;
+const PEAK_HOLD_FRAMES = 20;
+const PEAK_FALL = 0.15; // Height units per 60fps frame
+
+const spectrumRingMode: VisualizerModePlugin = {
+  id: VisualizerMode.SpectrumRing,
+  name: 'Spectrum Ring',
+  order: 7,
+  description: 'Circular spectrum analyzer, bars with falling peak caps. Good for EDM/hip-hop/club tracks with clear drops.',
+  preferredGeometry: GeometryType.Box,
+  keywords: ['spectrum', 'bars', 'equalizer', 'eq', 'analyzer', 'meter', 'club', 'edm', 'hip-hop', 'hiphop', 'rap', 'drop', 'circle'],
+  palette: ['#ff2e88', '#ffd23f'],
+  create: () => {
+    const levels = new Float32Array(BAR_COUNT);
+    const peaks = new Float32Array(BAR_COUNT);
+    const peakHold = new Float32Array(BAR_COUNT);
+    const dummy = new THREE.Object3D();
+    const color = new THREE.Color();
+
+    const group = new THREE.Group();
+    group.visible = false;
+    let geometryType: GeometryType | null = null;
+    let geometry: THREE.BufferGeometry | null = null;
+    const barMaterial = new THREE.MeshStandardMaterial({ metalness: 0.3, roughness: 0.4 });
+    const peakMaterial = new THREE.MeshBasicMaterial();
+    const bars = new THREE.InstancedMesh(new THREE.BufferGeometry(), barMaterial, BAR_COUNT);
+    const caps = new THREE.InstancedMesh(new THREE.BufferGeometry(), peakMaterial, BAR_COUNT);
+    bars.frustumCulled = false;
+    caps.frustumCulled = false;
+    group.add(bars, caps);
+
+    // Bars use the particle geometry so the geometry setting still applies
+    const useGeometry = (type: GeometryType) => {
+      if (type === geometryType) return;
+      geometry?.dispose();
+      geometry = createParticleGeometry(type);
+      // Unit height resting on the ring, so scaling y grows the bar upwards
+      geometry.computeBoundingBox();
+      const box = geometry.boundingBox;
+      geometry.translate(0, -box.min.y, 0);
+      geometry.scale(1, 1 / (box.max.y - box.min.y), 1);
+      bars.geometry = geometry;
+      caps.geometry = geometry;
+      geometryType = type;
+    };
+
+    return {
+      init: (scene) => {
+        scene.add(group);
+      },
+      update: ({ weight, step, audio, config, primary, secondary, beatPulse }) => {
+        group.visible = weight > 0;
+        if (weight <= 0) return;
+        useGeometry(config.geometryType);
+
+        resampleLogSpectrum(audio.frequencyData, levels);
+        const width = 0.4 + config.particleSize * 0.6;
+        for (let i = 0; i < BAR_COUNT; i++) {
+          const height = 0.2 + Math.min(1, levels[i] * config.sensitivity) * MAX_HEIGHT;
+
+          if (height >= peaks[i]) {
+            peaks[i] = height;
+            peakHold[i] = PEAK_HOLD_FRAMES;
+          } else if (peakHold[i] > 0) {
+            peakHold[i] -= step;
+          } else {
+            peaks[i] = Math.max(height, peaks[i] - PEAK_FALL * step);
+          }
+
+          const angle = (i / BAR_COUNT) * Math.PI * 2;
+          dummy.position.set(Math.cos(angle) * RADIUS, -MAX_HEIGHT / 3, Math.sin(angle) * RADIUS);
+          dummy.rotation.set(0, -angle, 0);
+          dummy.scale.set(width, height, width);
+          dummy.updateMatrix();
+          bars.setMatrixAt(i, dummy.matrix);
+
+          dummy.position.y += peaks[i] + 0.3;
+          dummy.scale.set(width, 0.2, width);
+          dummy.updateMatrix();
+          caps.setMatrixAt(i, dummy.matrix);
+
+          color.copy(primary).lerp(secondary, i / (BAR_COUNT - 1)).multiplyScalar(0.5 + levels[i] + beatPulse * 0.3);
+          bars.setColorAt(i, color);
+          caps.setColorAt(i, color.copy(secondary).lerp(primary, 0.3));
+        }
+        bars.instanceMatrix.needsUpdate = true;
+        caps.instanceMatrix.needsUpdate = true;
+        bars.instanceColor.needsUpdate = true;
+        caps.instanceColor.needsUpdate = true;
+
+        group.scale.setScalar(weight);
+        group.rotation.y += 0.003 * config.rotationSpeed * step;
+      },
+      reset: () => {
+        peaks.fill(0);
+        peakHold.fill(0);
+        group.rotation.set(0, 0, 0);
+      },
+      dispose: () => {
+        group.removeFromParent();
+        geometry?.dispose();
+        barMaterial.dispose();
+        peakMaterial.dispose();
+      }
+    };
+  }
+};
+
+export default spectrumRingMode;
@@ -0,0 +1,62 @@
+import { VisualizerMode, GeometryType } from '../../types';
+import { SurfaceMesh, createSurfaceMesh } from '../surfaceMesh';
+import { VisualizerModePlugin } from './types';
+
+const surfaceMode: VisualizerModePlugin = {
+  id: VisualizerMode.Surface,
+  name: 'Surface',
+  order: 5,
+  description: 'Continuous liquid mesh, topographic, deforming surface. Good for vocals/smooth/organic tracks.',
+  preferredGeometry: GeometryType.Sphere,
+  keywords: ['vocal', 'vocals', 'smooth', 'organic', 'jazz', 'soul', 'rnb', 'r&b', 'acoustic', 'folk', 'liquid', 'water', 'clouds', 'topographic'],
+  palette: ['#bfbfbf', '#f47a9b'],
+  // Spread over the surface sphere so particles can morph into it
+  particles: {
+    glsl: /* glsl */ `
+      p = spherePoint(i) * 10.0;
+    `
+  },
+  create: () => {
+    let surface: SurfaceMesh | null = null;
+
+    return {
+      init: (scene, { spectrum }) => {
+        surface = createSurfaceMesh(spectrum);
+        scene.add(surface.mesh);
+      },
+      update: ({ weight, time, config, mood, normalizedBass, primary, secondary, mouse, step }) => {
+        if (!surface) return;
+        surface.mesh.visible = weight > 0;
+        if (weight <= 0) return;
+
+        surface.mesh.scale.setScalar(weight);
+        // Same easing at any frame rate
+        const ease = 1 - Math.pow(0.9, step);
+        surface.material.color.lerp(primary, ease);
+        surface.material.emissive.lerp(secondary, ease);
+        surface.material.emissiveIntensity = normalizedBass * 0.5;
+
+        surface.uniforms.uTime.value = time;
+        surface.uniforms.uSensitivity.value = config.sensitivity;
+        surface.uniforms.uMood.value = mood;
+        // Assume the mouse controls a point roughly in front of the sphere
+        surface.uniforms.uMouse.value.set(mouse.x * 15, mouse.y * 15);
+        surface.mesh.rotation.y += 0.002 * step;
+      },
+      reset: () => {
+        if (!surface) return;
+        surface.mesh.rotation.set(0, 0, 0);
+        surface.material.color.set(0xffffff);
+        surface.material.emissive.set(0x000000);
+      },
+      dispose: () => {
+        if (!surface) return;
+        surface.mesh.removeFromParent();
+        surface.dispose();
+        surface = null;
+      }
+    };
+  }
+};
+
+export default surfaceMode;
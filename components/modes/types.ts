@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import { AudioData, GeometryType } from '../../types';
+import { BlendedConfig } from '../../services/configTransition';
+
+// Shared per-frame state handed to every mode
+export interface FrameContext {
+  time: number;       // Animation time (advances 0.3 per second)
+  step: number;       // Frame length in 60fps frames, scales per-frame increments
+  weight: number;     // How much of this mode is showing: 0 hidden, 1 fully on, in between while morphing
+  config: BlendedConfig;
+  audio: AudioData;
+  mood: number;       // 0 (calm) .. 1 (intense)
+  normalizedBass: number;
+  beatPulse: number;  // 1 on a beat, decaying
+  primary: THREE.Color;   // Config colors after the hue drift
+  secondary: THREE.Color;
+  mouse: THREE.Vector2;   // Smoothed, -1..1
+}
+
+// GPU resources owned by the scene that modes may read from
+export interface ModeResources {
+  spectrum: THREE.Texture;      // Mix
+  spectrumLeft: THREE.Texture;
+  spectrumRight: THREE.Texture;
+}
+
+// Scene objects of a mode that draws more than the shared particle field
+export interface ModeInstance {
+  init: (scene: THREE.Scene, resources: ModeResources) => void;
+  update: (frame: FrameContext) => void;
+  // Back to the state right after init, for deterministic offline renders
+  reset?: () => void;
+  dispose: () => void;
+}
+
+export interface ParticleLayout {
+  // GLSL body that sets `vec3 p` (position) and `float scale` for particle
+  // `i`. Also in scope: `freq` (this particle's spectrum value, 0..1),
+  // `rand1` and every uniform and helper of the particle shader, including
+  // the stereo ones (`uBalance`, `uPanAxis`, `stereoSide`, `channelFreq`).
+  glsl: string;
+  facesOrigin?: boolean;   // Point particles at the center instead of tumbling
+  rotationFactor?: number; // Scales the field's spin, 1 by default
+}
+
+export interface VisualizerModePlugin {
+  id: string;          // Stored in VisualConfig.mode, upper case
+  name: string;
+  order: number;       // Position when cycling through modes
+  description: string; // One line for the generator prompt
+  preferredGeometry: GeometryType;
+  keywords: string[];  // Words the offline interpreter associates with the mode
+  palette: [string, string]; // Primary and secondary color when none is given
+  // Layout on the shared instanced particle field. Modes with a layout can
+  // morph into each other.
+  particles?: ParticleLayout;
+  // Own scene objects; the particle field fades out while this mode shows
+  create?: () => ModeInstance;
+}
@@ -0,0 +1,27 @@
+import { VisualizerMode, GeometryType } from '../../types';
+import { VisualizerModePlugin } from './types';
+
+const waveMode: VisualizerModePlugin = {
+  id: VisualizerMode.Wave,
+  name: 'Wave',
+  order: 1,
+  description: 'Linear flowing waves, good for chill/ambient.',
+  preferredGeometry: GeometryType.Sphere,
+  keywords: ['chill', 'ambient', 'calm', 'ocean', 'sea', 'wave', 'waves', 'soft', 'dreamy', 'lofi', 'lo-fi', 'relax', 'sleep', 'drift', 'float'],
+  palette: ['#1ae6e6', '#b36ef7'],
+  particles: {
+    glsl: /* glsl */ `
+      float cols = ceil(sqrt(uCount));
+      float spacing = 75.0 / cols;
+      p.x = (mod(i, cols) - cols * 0.5) * spacing;
+      p.z = (floor(i / cols) - cols * 0.4) * spacing;
+      // Each half of the grid follows its own channel
+      float side = stereoSide(vec3(p.x, 0.0, p.z), spacing * 2.0);
+      float waveHeight = 5.0 + mix(uBassLeft, uBassRight, side) / 255.0 * 10.0 * uMood;
+      float waveFreq = 0.2 + uMood * 0.5;
+      p.y = sin(p.x * waveFreq + uTime * (2.0 + uMood * 2.0)) * waveHeight + channelFreq(i, side) * 10.0;
+    `
+  }
+};
+
+export default waveMode;
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import { GeometryType } from '../types';
+import { PARTICLE_MODES, ModeResources } from './modes';
+import { createParticleGeometry } from './particleGeometry';
+
+// Instanced particle system whose layouts come from the mode registry and are
+// computed in the vertex shader. The CPU only updates a handful of uniforms
+// per frame, so the particle count is limited by fill rate rather than
+// JavaScript.
+
+// One GLSL function per registered layout plus a dispatcher. The branch
+// index of a mode is particleModeIndex(mode.id).
+const buildLayoutGlsl = () => {
+  const layouts = PARTICLE_MODES.map((mode, index) => /* glsl */ `
+  // ${mode.id}
+  vec4 modeLayout${index}(float i, float freq) {
+    vec3 p = vec3(0.0);
+    float scale = 1.0;
+    float rand1 = sin(i * 12.34);
+    ${mode.particles!.glsl.trim()}
+    return vec4(p, scale);
+  }`).join('\n');
+
+  const branches = PARTICLE_MODES.map((_, index) =>
+    index === PARTICLE_MODES.length - 1
+      ? `return modeLayout${index}(i, freq);`
+      : `if (mode < ${index}.5) return modeLayout${index}(i, freq);`
+  ).join('\n    ');
+
+  const facing = PARTICLE_MODES
+    .map((mode, index) => (mode.particles!.facesOrigin ? `abs(mode - ${index}.0) < 0.5` : null))
+    .filter(Boolean);
+
+  return /* glsl */ `${layouts}
+
+  // xyz = position, w = scale multiplier
+  vec4 particleLayout(float mode, float i, float freq) {
+    ${branches}
+  }
+
+  bool facesOrigin(float mode) {
+    return ${facing.length ? facing.join(' || ') : 'false'};
+  }`;
+};
+
+// Particle count the layouts were designed around; larger counts shrink
+// particles and tighten spacing so the overall shape stays the same.
+const REFERENCE_COUNT = 2500;
+
+const VERTEX_HEADER = /* glsl */ `
+  uniform float uTime;
+  uniform float uCount;
+  uniform float uDensityScale;
+  uniform float uMode;
+  uniform float uPrevMode;
+  uniform float uMorph;
+  uniform float uVisibility;
+  uniform float uParticleSize;
+  uniform float uRotationSpeed;
+  uniform float uBass;
+  uniform float uMid;
+  uniform float uBassLeft;
+  uniform float uBassRight;
+  uniform float uBalance;
+  uniform float uWidth;
+  uniform vec3 uPanAxis;
+  uniform float uMood;
+  uniform float uBeatPulse;
+  uniform vec2 uMouse;
+  uniform vec3 uPrimary;
+  uniform vec3 uSecondary;
+  uniform sampler2D uSpectrum;
+  uniform sampler2D uSpectrumLeft;
+  uniform sampler2D uSpectrumRight;
+
+  attribute float aIndex;
+  varying vec3 vParticleColor;
+
+  const float PI2 = 6.283185307179586;
+  const float GOLDEN_FRACT = 0.6180339887498949;
+
+  float simpleNoise(vec3 p) {
+    return sin(p.x) * cos(p.y) + sin(p.y) * cos(p.z) + sin(p.z) * cos(p.x);
+  }
+
+  float hash(float n) {
+    return fract(sin(n) * 43758.5453123);
+  }
+
+  mat3 rotationXYZ(vec3 a) {
+    vec3 c = cos(a);
+    vec3 s = sin(a);
+    mat3 rx = mat3(1.0, 0.0, 0.0, 0.0, c.x, s.x, 0.0, -s.x, c.x);
+    mat3 ry = mat3(c.y, 0.0, -s.y, 0.0, 1.0, 0.0, s.y, 0.0, c.y);
+    mat3 rz = mat3(c.z, s.z, 0.0, -s.z, c.z, 0.0, 0.0, 0.0, 1.0);
+    return rx * ry * rz;
+  }
+
+  // Same orientation as Object3D.lookAt(0, 0, 0): +Z towards the origin
+  mat3 lookAtOrigin(vec3 p) {
+    vec3 z = normalize(-p + vec3(0.0, 0.0, 1e-5));
+    vec3 x = cross(vec3(0.0, 1.0, 0.0), z);
+    x = length(x) < 1e-5 ? vec3(1.0, 0.0, 0.0) : normalize(x);
+    vec3 y = cross(z, x);
+    return mat3(x, y, z);
+  }
+
+  // Fibonacci sphere point for particle i
+  vec3 spherePoint(float i) {
+    float inclination = acos(1.0 - 2.0 * (i / uCount));
+    float azimuth = fract(i * GOLDEN_FRACT) * PI2;
+    return vec3(sin(inclination) * cos(azimuth), sin(inclination) * sin(azimuth), cos(inclination));
+  }
+
+  // 0 on the screen-left side of the field, 1 on the right, blended over
+  // \`soft\` units around the middle
+  float stereoSide(vec3 p, float soft) {
+    return smoothstep(-soft, soft, dot(p, uPanAxis));
+  }
+
+  // Spectrum value of particle i, taken from the left (side 0) or right
+  // (side 1) channel
+  float channelFreq(float i, float side) {
+    vec2 uv = vec2((i + 0.5) / uCount, 0.5);
+    return mix(texture2D(uSpectrumLeft, uv).r, texture2D(uSpectrumRight, uv).r, side);
+  }
+
+  ${buildLayoutGlsl()}
+`;
+
+const VERTEX_MAIN = /* glsl */ `
+  float pFreq = texture2D(uSpectrum, vec2((aIndex + 0.5) / uCount, 0.5)).r;
+
+  vec4 pLayout = particleLayout(uMode, aIndex, pFreq);
+  if (uMorph < 1.0 && uPrevMode != uMode) {
+    // Morph from the previous mode's layout
+    pLayout = mix(particleLayout(uPrevMode, aIndex, pFreq), pLayout, uMorph);
+  }
+  vec3 pPos = pLayout.xyz;
+  float pScale = uParticleSize * uDensityScale * (0.5 + pFreq) * pLayout.w * uVisibility;
+
+  // Mouse repulsion
+  vec2 pAway = pPos.xy - uMouse;
+  float pDist = length(pAway);
+  bool pNearMouse = pDist < 10.0;
+  if (pNearMouse && pDist > 0.0) {
+    pPos.xy += (pAway / pDist) * (1.0 - pDist / 10.0) * 5.0;
+    pScale *= 1.5;
+  }
+  if (uMood > 0.6 && pFreq > 0.5) pScale *= 1.5;
+
+  mat3 pRot = facesOrigin(uMode) ? lookAtOrigin(pPos) : rotationXYZ(vec3(uTime) + pPos);
+
+  // Color
+  float pMix = uMood > 0.6 ? smoothstep(0.4, 0.6, pFreq) : pFreq;
+  vec3 pColor = mix(uPrimary, uSecondary, pMix);
+  if (uBass > 230.0 && uMood > 0.3) pColor = mix(pColor, vec3(1.0), 0.5 * pFreq);
+  if (pNearMouse) pColor = mix(pColor, vec3(1.0), 0.3);
+  vParticleColor = pColor;
+
+  vec3 objectNormal = pRot * vec3(normal);
+`;
+
+export interface ParticleField {
+  mesh: THREE.Mesh;
+  uniforms: Record<string, THREE.IUniform>;
+  setGeometry: (type: GeometryType) => void;
+  setCount: (count: number) => void;
+  dispose: () => void;
+}
+
+// Wraps a base geometry into an instanced one with a per-instance index
+const buildInstancedGeometry = (base: THREE.BufferGeometry, count: number) => {
+  const geometry = new THREE.InstancedBufferGeometry();
+  geometry.setIndex(base.index);
+  for (const name of Object.keys(base.attributes)) {
+    geometry.setAttribute(name, base.attributes[name]);
+  }
+  const indices = new Float32Array(count);
+  for (let i = 0; i < count; i++) indices[i] = i;
+  geometry.setAttribute('aIndex', new THREE.InstancedBufferAttribute(indices, 1));
+  geometry.instanceCount = count;
+  return geometry;
+};
+
+export const createParticleField = (
+  count: number,
+  geometryType: GeometryType,
+  { spectrum, spectrumLeft, spectrumRight }: ModeResources
+): ParticleField => {
+  const uniforms: Record<string, THREE.IUniform> = {
+    uTime: { value: 0 },
+    uCount: { value: count },
+    uDensityScale: { value: 1 },
+    uMode: { value: 0 },
+    uPrevMode: { value: 0 },
+    uMorph: { value: 1 },
+    uVisibility: { value: 1 },
+    uParticleSize: { value: 1 },
+    uRotationSpeed: { value: 0 },
+    uBass: { value: 0 },
+    uMid: { value: 0 },
+    uBassLeft: { value: 0 },
+    uBassRight: { value: 0 },
+    uBalance: { value: 0 },
+    uWidth: { value: 0 },
+    uPanAxis: { value: new THREE.Vector3(1, 0, 0) },
+    uMood: { value: 0 },
+    uBeatPulse: { value: 0 },
+    uMouse: { value: new THREE.Vector2() },
+    uPrimary: { value: new THREE.Color() },
+    uSecondary: { value: new THREE.Color() },
+    uSpectrum: { value: spectrum },
+    uSpectrumLeft: { value: spectrumLeft },
+    uSpectrumRight: { value: spectrumRight }
+  };
+
+  const material = new THREE.MeshPhysicalMaterial({
+    color: 0xffffff,
+    metalness: 0.2,
+    roughness: 0.5,
+  });
+  material.onBeforeCompile = (shader: { uniforms: Record<string, THREE.IUniform>; vertexShader: string; fragmentShader: string }) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${VERTEX_HEADER}`)
+      .replace('#include <beginnormal_vertex>', VERTEX_MAIN)
+      .replace('#include <begin_vertex>', 'vec3 transformed = pPos + pRot * (position * pScale);');
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vParticleColor;')
+      .replace('#include <color_fragment>', 'diffuseColor.rgb *= vParticleColor;');
+  };
+
+  let currentCount = count;
+  let baseGeometry = createParticleGeometry(geometryType);
+  const mesh = new THREE.Mesh(buildInstancedGeometry(baseGeometry, count), material);
+  // Positions only exist on the GPU, so the CPU bounding volume is meaningless
+  mesh.frustumCulled = false;
+
+  const replaceGeometry = (geometry: THREE.InstancedBufferGeometry) => {
+    const previous = mesh.geometry;
+    mesh.geometry = geometry;
+    previous.dispose();
+  };
+
+  const setCount = (next: number) => {
+    if (next === currentCount) return;
+    currentCount = next;
+    uniforms.uCount.value = next;
+    uniforms.uDensityScale.value = Math.min(1, Math.cbrt(REFERENCE_COUNT / next));
+    replaceGeometry(buildInstancedGeometry(baseGeometry, next));
+  };
+
+  const setGeometry = (type: GeometryType) => {
+    baseGeometry = createParticleGeometry(type);
+    replaceGeometry(buildInstancedGeometry(baseGeometry, currentCount));
+  };
+
+  const dispose = () => {
+    mesh.geometry.dispose();
+    material.dispose();
+  };
+
+  uniforms.uDensityScale.value = Math.min(1, Math.cbrt(REFERENCE_COUNT / count));
+  return { mesh, uniforms, setGeometry, setCount, dispose };
+};
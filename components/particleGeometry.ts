@@ -0,0 +1,22 @@
+import * as THREE from 'three';
+import { GeometryType } from '../types';
+
+// Base shape of a single particle. Shared by the particle field and the modes
+// that draw their own instanced meshes.
+export function createParticleGeometry(type: GeometryType): THREE.BufferGeometry {
+  switch (type) {
+    case GeometryType.Sphere:
+      return new THREE.SphereGeometry(0.5, 12, 12);
+    case GeometryType.Tetrahedron:
+      return new THREE.TetrahedronGeometry(0.6);
+    case GeometryType.Octahedron:
+      return new THREE.OctahedronGeometry(0.5);
+    case GeometryType.Torus:
+      return new THREE.TorusGeometry(0.4, 0.15, 8, 16);
+    case GeometryType.Cone:
+      return new THREE.ConeGeometry(0.4, 1, 16);
+    case GeometryType.Box:
+    default:
+      return new THREE.BoxGeometry(0.8, 0.8, 0.8);
+  }
+}
@@ -0,0 +1,31 @@
+import * as THREE from 'three';
+
+// One-row texture holding the byte spectrum so shaders can sample frequency
+// data directly instead of receiving it per vertex or per instance.
+export interface SpectrumTexture {
+  texture: THREE.DataTexture;
+  update: (frequencyData: Uint8Array) => void;
+  dispose: () => void;
+}
+
+export const createSpectrumTexture = (initialSize = 1024): SpectrumTexture => {
+  let data = new Uint8Array(initialSize);
+  const texture = new THREE.DataTexture(data, initialSize, 1, THREE.RedFormat, THREE.UnsignedByteType);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.needsUpdate = true;
+
+  const update = (frequencyData: Uint8Array) => {
+    if (frequencyData.length !== data.length) {
+      // Analyser size changed: reallocate, three re-uploads at the new size
+      data = new Uint8Array(frequencyData.length);
+      texture.image = { data, width: data.length, height: 1 };
+      texture.dispose();
+    }
+    data.set(frequencyData);
+    texture.needsUpdate = true;
+  };
+
+  return { texture, update, dispose: () => texture.dispose() };
+};
@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+
+// Deforming liquid sphere for SURFACE mode. Displacement runs in the vertex
+// shader: the spectrum is laid out by latitude (lows at the bottom pole, highs
+// at the top) and normals are rebuilt from the displaced shape so lighting
+// follows the deformation.
+
+const SURFACE_RADIUS = 10;
+
+const VERTEX_HEADER = /* glsl */ `
+  uniform float uTime;
+  uniform float uSensitivity;
+  uniform float uMood;
+  uniform vec2 uMouse;
+  uniform sampler2D uSpectrum;
+
+  const float PI = 3.141592653589793;
+  const float RADIUS = ${SURFACE_RADIUS.toFixed(1)};
+  // Latitude is mapped logarithmically onto the spectrum so the bass region is
+  // not squeezed into a sliver at the pole. The top quarter of the analyser
+  // range (above ~16 kHz) is almost always empty and is left out.
+  const float SPECTRUM_LOG_BASE = 64.0;
+  const float SPECTRUM_RANGE = 0.75;
+
+  float simpleNoise(vec3 p) {
+    return sin(p.x) * cos(p.y) + sin(p.y) * cos(p.z) + sin(p.z) * cos(p.x);
+  }
+
+  float spectrumAt(vec3 o) {
+    float latitude = acos(clamp(-o.y / RADIUS, -1.0, 1.0)) / PI; // 0 at the bottom pole
+    float coord = (pow(SPECTRUM_LOG_BASE, latitude) - 1.0) / (SPECTRUM_LOG_BASE - 1.0) * SPECTRUM_RANGE;
+    return texture2D(uSpectrum, vec2(coord, 0.5)).r;
+  }
+
+  // Radial scale for a point on the undeformed sphere
+  float surfaceScale(vec3 o) {
+    float n = simpleNoise(vec3(o.x * 0.2 + uTime, o.y * 0.2 + uTime, o.z * 0.2));
+    float displacement = 1.0 + spectrumAt(o) * 0.5 * uSensitivity + n * 0.2 * uMood;
+
+    // Bulge out near the mouse
+    float distToMouse = distance(o.xy, uMouse);
+    float mouseFactor = distToMouse < 8.0 ? (1.0 - distToMouse / 8.0) * 2.0 : 0.0;
+
+    return displacement + mouseFactor;
+  }
+
+  vec3 displaceSurface(vec3 o) {
+    return o * surfaceScale(o);
+  }
+`;
+
+const VERTEX_MAIN = /* glsl */ `
+  vec3 sOrigin = normalize(position) * RADIUS;
+  vec3 sDisplaced = displaceSurface(sOrigin);
+
+  // Rebuild the normal from two neighbouring points on the deformed surface
+  vec3 sUp = abs(sOrigin.y) < RADIUS * 0.99 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0);
+  vec3 sTangent = normalize(cross(sUp, sOrigin));
+  vec3 sBitangent = normalize(cross(sOrigin, sTangent));
+  float sEps = 0.05;
+  vec3 sP1 = displaceSurface(normalize(sOrigin + sTangent * sEps) * RADIUS);
+  vec3 sP2 = displaceSurface(normalize(sOrigin + sBitangent * sEps) * RADIUS);
+  vec3 objectNormal = normalize(cross(sP1 - sDisplaced, sP2 - sDisplaced));
+  if (dot(objectNormal, sOrigin) < 0.0) objectNormal = -objectNormal;
+`;
+
+export interface SurfaceMesh {
+  mesh: THREE.Mesh;
+  material: THREE.MeshPhysicalMaterial;
+  uniforms: Record<string, THREE.IUniform>;
+  dispose: () => void;
+}
+
+export const createSurfaceMesh = (spectrum: THREE.Texture): SurfaceMesh => {
+  const uniforms: Record<string, THREE.IUniform> = {
+    uTime: { value: 0 },
+    uSensitivity: { value: 1 },
+    uMood: { value: 0 },
+    uMouse: { value: new THREE.Vector2() },
+    uSpectrum: { value: spectrum }
+  };
+
+  // High detail Icosahedron for organic deformations
+  const geometry = new THREE.IcosahedronGeometry(SURFACE_RADIUS, 20);
+  const material = new THREE.MeshPhysicalMaterial({
+    color: 0xffffff,
+    metalness: 0.8,
+    roughness: 0.2,
+    clearcoat: 1.0,
+    clearcoatRoughness: 0.1,
+    wireframe: false,
+    flatShading: false,
+  });
+  material.onBeforeCompile = (shader: { uniforms: Record<string, THREE.IUniform>; vertexShader: string }) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${VERTEX_HEADER}`)
+      .replace('#include <beginnormal_vertex>', VERTEX_MAIN)
+      .replace('#include <begin_vertex>', 'vec3 transformed = sDisplaced;');
+  };
+
+  const mesh = new THREE.Mesh(geometry, material);
+  // Displacement can push vertices well past the base radius
+  mesh.frustumCulled = false;
+  mesh.visible = false;
+
+  const dispose = () => {
+    geometry.dispose();
+    material.dispose();
+  };
+
+  return { mesh, material, uniforms, dispose };
+};
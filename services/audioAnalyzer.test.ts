@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { AudioAnalyzerOptions, FrequencyBand, computeBands, createAudioAnalyzer } from "./audioAnalyzer";
+
+const SAMPLE_RATE = 48000;
+const FFT_SIZE = 2048;
+const HZ_PER_BIN = SAMPLE_RATE / FFT_SIZE;
+
+const analyzer = (options: Partial<AudioAnalyzerOptions> = {}) =>
+  createAudioAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE, ...options });
+
+const silent = () => new Uint8Array(FFT_SIZE / 2);
+const full = () => new Uint8Array(FFT_SIZE / 2).fill(255);
+
+// Lights exactly the bins a band reads, nothing else
+const bandOnly = (band: FrequencyBand) => {
+  const data = silent();
+  for (let i = Math.ceil(band.lowHz / HZ_PER_BIN); i <= Math.floor(band.highHz / HZ_PER_BIN); i++) data[i] = 255;
+  return data;
+};
+
+describe("computeBands", () => {
+  it("covers the range with contiguous log bands", () => {
+    const bands = computeBands(16, 20, 16000);
+    expect(bands).toHaveLength(16);
+    expect(bands[0].lowHz).toBeCloseTo(20);
+    expect(bands[15].highHz).toBeCloseTo(16000);
+    for (let i = 1; i < bands.length; i++) expect(bands[i].lowHz).toBeCloseTo(bands[i - 1].highHz);
+    // Evenly spaced in log frequency: every band spans the same ratio
+    for (const band of bands) {
+      expect(band.highHz / band.lowHz).toBeCloseTo(bands[0].highHz / bands[0].lowHz);
+      expect(band.centerHz).toBeCloseTo(Math.sqrt(band.lowHz * band.highHz));
+    }
+  });
+
+  it("gives Mel bands the same edges but wider low bands", () => {
+    const log = computeBands(8, 20, 16000);
+    const mel = computeBands(8, 20, 16000, "mel");
+    expect(mel[0].lowHz).toBeCloseTo(20);
+    expect(mel[7].highHz).toBeCloseTo(16000);
+    expect(mel[0].highHz).toBeGreaterThan(log[0].highHz);
+  });
+
+  it("clamps the last band to Nyquist", () => {
+    const { bands } = analyzer({ sampleRate: 22050, maxFrequency: 16000 });
+    expect(bands[bands.length - 1].highHz).toBeCloseTo(11025);
+  });
+});
+
+describe("createAudioAnalyzer", () => {
+  it("keeps energy inside the band it belongs to", () => {
+    const a = analyzer({ attackMs: 0, releaseMs: 0 });
+    const index = 12;
+    const { bands } = a.analyze(bandOnly(a.bands[index]), 0);
+    expect(bands[index]).toBe(1);
+    expect(bands[index - 1]).toBe(0);
+    expect(bands[index + 1]).toBe(0);
+  });
+
+  it("reads bands narrower than a bin between their neighbours", () => {
+    const a = analyzer({ attackMs: 0, releaseMs: 0 });
+    // Band 1 spans bins 1.3 to 2.0 and contains no whole bin
+    const { lowHz, highHz } = a.bands[1];
+    expect(Math.ceil(lowHz / HZ_PER_BIN)).toBeGreaterThan(Math.floor(highHz / HZ_PER_BIN));
+    const data = silent();
+    data[1] = 255;
+    const center = (lowHz + highHz) / 2 / HZ_PER_BIN;
+    expect(a.analyze(data, 0).bands[1]).toBeCloseTo(2 - center, 5);
+  });
+
+  it("rises with the attack and falls with the release time constant", () => {
+    const a = analyzer({ attackMs: 30, releaseMs: 250 });
+    a.analyze(silent(), 0);
+    const risen = a.analyze(full(), 30).bands[12];
+    expect(risen).toBeCloseTo(1 - Math.exp(-1), 5);
+
+    const fallen = a.analyze(silent(), 280).bands[12];
+    expect(fallen).toBeCloseTo(risen * Math.exp(-1), 5);
+  });
+
+  it("takes per-band time constants", () => {
+    const a = analyzer({ attackMs: [0, 100], releaseMs: 0 });
+    a.analyze(silent(), 0);
+    const { bands } = a.analyze(full(), 100);
+    expect(bands[0]).toBe(1);
+    expect(bands[1]).toBeCloseTo(1 - Math.exp(-1), 5);
+    expect(bands[15]).toBeCloseTo(bands[1], 5); // The last value covers the rest
+  });
+
+  it("holds peaks, then lets them fall at the configured speed", () => {
+    const a = analyzer({ attackMs: 0, releaseMs: 0, peakHoldMs: 600, peakFallPerSecond: 0.8 });
+    expect(a.analyze(full(), 0).bandPeaks[12]).toBe(1);
+
+    for (let t = 100; t <= 600; t += 100) {
+      const { bands, bandPeaks } = a.analyze(silent(), t);
+      expect(bands[12]).toBe(0);
+      expect(bandPeaks[12]).toBe(1);
+    }
+    expect(a.analyze(silent(), 700).bandPeaks[12]).toBeCloseTo(0.92, 5);
+    expect(a.analyze(silent(), 800).bandPeaks[12]).toBeCloseTo(0.84, 5);
+    expect(a.analyze(silent(), 2000).bandPeaks[12]).toBe(0); // Never below the level
+  });
+
+  it("latches a new peak during the hold", () => {
+    const a = analyzer({ attackMs: 0, releaseMs: 0, peakHoldMs: 600 });
+    const half = new Uint8Array(FFT_SIZE / 2).fill(128);
+    a.analyze(half, 0);
+    a.analyze(full(), 500);
+    expect(a.analyze(silent(), 1000).bandPeaks[12]).toBe(1); // Held from 500 ms
+  });
+
+  it("starts over after reset", () => {
+    const a = analyzer();
+    a.analyze(full(), 0);
+    a.reset();
+    const { bands, bandPeaks } = a.analyze(silent(), 1000);
+    expect(Math.max(...bands)).toBe(0);
+    expect(Math.max(...bandPeaks)).toBe(0);
+  });
+});
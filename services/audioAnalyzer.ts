@@ -0,0 +1,310 @@
+// Frequency band analysis on top of a byte spectrum (the format returned by
+// AnalyserNode.getByteFrequencyData). No Web Audio dependencies: feeding the
+// same spectra and timestamps always yields the same AudioData. Passing the
+// left and right channels as well adds per-channel bands and stereo measures.
+
+import { AudioData, ChannelData } from '../types';
+import { BeatDetectorOptions, createBeatDetector } from './beatDetector';
+
+// Analyser settings shared by the live graph and offline analysis. 2048 is
+// large enough that the lowest log bands land on distinct bins.
+export const ANALYSER_FFT_SIZE = 2048;
+export const ANALYSER_SMOOTHING = 0.8;
+
+export type BandScale = 'log' | 'mel';
+
+export interface AudioAnalyzerOptions {
+  sampleRate: number;
+  fftSize: number;
+  bandCount?: number;
+  scale?: BandScale;
+  minFrequency?: number;   // Hz, lower edge of the first band
+  maxFrequency?: number;   // Hz, upper edge of the last band (clamped to Nyquist)
+  bassCrossover?: number;  // Hz, bass/mid split
+  trebleCrossover?: number; // Hz, mid/treble split
+  attackMs?: number | number[];  // Rise time constant, a single value or one per band
+  releaseMs?: number | number[]; // Fall time constant, a single value or one per band
+  peakHoldMs?: number;     // How long a band peak stays put before falling
+  peakFallPerSecond?: number; // Peak fall speed once the hold expired (0..1 units)
+  stereoSmoothingMs?: number; // Time constant for balance, correlation and width
+  beat?: BeatDetectorOptions;
+}
+
+export interface FrequencyBand {
+  lowHz: number;
+  highHz: number;
+  centerHz: number;
+}
+
+// One channel of a stereo frame, in the same formats as the mono arguments
+export interface ChannelInput {
+  frequencyData: Uint8Array;
+  timeDomainData: Uint8Array;
+}
+
+export interface StereoInput {
+  left: ChannelInput;
+  right: ChannelInput;
+}
+
+export interface AudioAnalyzer {
+  bands: FrequencyBand[];
+  analyze: (frequencyData: Uint8Array, timeMs: number, timeDomainData?: Uint8Array, stereo?: StereoInput) => AudioData;
+  reset: () => void;
+}
+
+const DEFAULT_OPTIONS = {
+  bandCount: 16,
+  scale: 'log' as BandScale,
+  minFrequency: 20,
+  maxFrequency: 16000,
+  bassCrossover: 250,
+  trebleCrossover: 4000,
+  attackMs: 30,
+  releaseMs: 250,
+  peakHoldMs: 600,
+  peakFallPerSecond: 0.8,
+  stereoSmoothingMs: 150
+};
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+/**
+ * Splits [minFrequency, maxFrequency] into `count` bands that are evenly
+ * spaced on a logarithmic or Mel scale.
+ */
+export const computeBands = (
+  count: number,
+  minFrequency: number,
+  maxFrequency: number,
+  scale: BandScale = 'log'
+): FrequencyBand[] => {
+  const bands: FrequencyBand[] = [];
+  const toScale = scale === 'mel' ? hzToMel : Math.log;
+  const fromScale = scale === 'mel' ? melToHz : Math.exp;
+  const lo = toScale(Math.max(1, minFrequency));
+  const hi = toScale(Math.max(minFrequency + 1, maxFrequency));
+
+  for (let i = 0; i < count; i++) {
+    const lowHz = fromScale(lo + ((hi - lo) * i) / count);
+    const highHz = fromScale(lo + ((hi - lo) * (i + 1)) / count);
+    bands.push({ lowHz, highHz, centerHz: fromScale(lo + ((hi - lo) * (i + 0.5)) / count) });
+  }
+  return bands;
+};
+
+// Reads the spectrum between two fractional bin positions. Bands narrower than
+// a bin are interpolated at their center instead of collapsing onto one bin.
+const readRange = (data: Uint8Array, startPos: number, endPos: number) => {
+  const first = Math.ceil(startPos);
+  const last = Math.min(data.length - 1, Math.floor(endPos));
+  if (last >= first) {
+    let sum = 0;
+    for (let i = first; i <= last; i++) sum += data[i];
+    return sum / (last - first + 1);
+  }
+  const center = Math.min(data.length - 1, (startPos + endPos) / 2);
+  const i0 = Math.floor(center);
+  const i1 = Math.min(data.length - 1, i0 + 1);
+  const frac = center - i0;
+  return data[i0] * (1 - frac) + data[i1] * frac;
+};
+
+const perBand = (value: number | number[], index: number) =>
+  Array.isArray(value) ? value[Math.min(index, value.length - 1)] : value;
+
+// Exponential smoothing coefficient for a time constant and frame delta
+const coefficient = (tauMs: number, dtMs: number) =>
+  tauMs <= 0 ? 1 : 1 - Math.exp(-dtMs / tauMs);
+
+export interface StereoMeasure {
+  balance: number;
+  correlation: number;
+  width: number;
+}
+
+/**
+ * Balance, correlation and width of a pair of byte waveforms. Silence counts
+ * as centered mono.
+ */
+export const measureStereo = (left: Uint8Array, right: Uint8Array): StereoMeasure => {
+  let ll = 0;
+  let rr = 0;
+  let lr = 0;
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    const l = (left[i] - 128) / 128;
+    const r = (right[i] - 128) / 128;
+    ll += l * l;
+    rr += r * r;
+    lr += l * r;
+  }
+  const rmsLeft = Math.sqrt(ll / Math.max(1, length));
+  const rmsRight = Math.sqrt(rr / Math.max(1, length));
+  // Mid (L+R) and side (L-R) energy
+  const mid = (ll + 2 * lr + rr) / 4;
+  const side = (ll - 2 * lr + rr) / 4;
+  return {
+    balance: rmsLeft + rmsRight > 1e-4 ? (rmsRight - rmsLeft) / (rmsRight + rmsLeft) : 0,
+    correlation: ll > 0 && rr > 0 ? lr / Math.sqrt(ll * rr) : 1,
+    width: mid + side > 1e-9 ? side / (mid + side) : 0
+  };
+};
+
+/**
+ * What the visuals see before any audio is connected.
+ */
+export const createSilentAudioData = (): AudioData => {
+  const silentChannel = () => ({ frequencyData: new Uint8Array(128), bass: 0, mid: 0, treble: 0, bands: new Float32Array(DEFAULT_OPTIONS.bandCount) });
+  return {
+    frequencyData: new Uint8Array(128),
+    timeDomainData: new Uint8Array(ANALYSER_FFT_SIZE).fill(128),
+    overallAmplitude: 0,
+    bass: 0,
+    mid: 0,
+    treble: 0,
+    bands: new Float32Array(DEFAULT_OPTIONS.bandCount),
+    bandPeaks: new Float32Array(DEFAULT_OPTIONS.bandCount),
+    onset: false,
+    beat: false,
+    beatPhase: 0,
+    bpm: 0,
+    left: silentChannel(),
+    right: silentChannel(),
+    balance: 0,
+    correlation: 1,
+    width: 0
+  };
+};
+
+export const createAudioAnalyzer = (options: AudioAnalyzerOptions): AudioAnalyzer => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const nyquist = opts.sampleRate / 2;
+  const binCount = opts.fftSize / 2;
+  const hzPerBin = nyquist / binCount;
+
+  const bands = computeBands(
+    opts.bandCount,
+    opts.minFrequency,
+    Math.min(opts.maxFrequency, nyquist),
+    opts.scale
+  );
+  const bassBin = opts.bassCrossover / hzPerBin;
+  const trebleBin = opts.trebleCrossover / hzPerBin;
+
+  // Attack/release smoothing and peak hold over the bands of one spectrum
+  const createBandFollower = () => {
+    let levels = new Float32Array(opts.bandCount);
+    let peaks = new Float32Array(opts.bandCount);
+    let peakTimes = new Float64Array(opts.bandCount);
+
+    const process = (frequencyData: Uint8Array, timeMs: number, dt: number) => {
+      for (let b = 0; b < bands.length; b++) {
+        const raw = readRange(frequencyData, bands[b].lowHz / hzPerBin, bands[b].highHz / hzPerBin) / 255;
+        const tau = raw > levels[b] ? perBand(opts.attackMs, b) : perBand(opts.releaseMs, b);
+        levels[b] += (raw - levels[b]) * (dt === 0 ? 1 : coefficient(tau, dt));
+
+        // Peak hold: latch the maximum, then let it fall after the hold time
+        if (levels[b] >= peaks[b]) {
+          peaks[b] = levels[b];
+          peakTimes[b] = timeMs;
+        } else if (timeMs - peakTimes[b] > opts.peakHoldMs) {
+          peaks[b] = Math.max(levels[b], peaks[b] - (opts.peakFallPerSecond * dt) / 1000);
+        }
+      }
+      return { levels: Float32Array.from(levels), peaks: Float32Array.from(peaks) };
+    };
+
+    const reset = () => {
+      levels = new Float32Array(opts.bandCount);
+      peaks = new Float32Array(opts.bandCount);
+      peakTimes = new Float64Array(opts.bandCount);
+    };
+
+    return { process, reset };
+  };
+
+  const beatDetector = createBeatDetector(opts.beat);
+  const mixFollower = createBandFollower();
+  const leftFollower = createBandFollower();
+  const rightFollower = createBandFollower();
+  let stereoState: StereoMeasure = { balance: 0, correlation: 1, width: 0 };
+  let lastTimeMs: number | null = null;
+
+  // Flat line for callers that have no waveform
+  const silence = new Uint8Array(opts.fftSize).fill(128);
+
+  // --- Crossovers ---
+  const crossovers = (frequencyData: Uint8Array) => ({
+    bass: readRange(frequencyData, 0, bassBin),
+    mid: readRange(frequencyData, bassBin, trebleBin),
+    treble: readRange(frequencyData, trebleBin, frequencyData.length - 1)
+  });
+
+  const channel = (frequencyData: Uint8Array, bandLevels: Float32Array): ChannelData => ({
+    frequencyData,
+    ...crossovers(frequencyData),
+    bands: bandLevels
+  });
+
+  const analyze = (
+    frequencyData: Uint8Array,
+    timeMs: number,
+    timeDomainData: Uint8Array = silence,
+    stereo?: StereoInput
+  ): AudioData => {
+    const dt = lastTimeMs === null ? 0 : Math.max(0, timeMs - lastTimeMs);
+    lastTimeMs = timeMs;
+
+    // --- Bands ---
+    const mix = mixFollower.process(frequencyData, timeMs, dt);
+
+    let sum = 0;
+    for (let i = 0; i < frequencyData.length; i++) sum += frequencyData[i];
+    const mixChannel = channel(frequencyData, mix.levels);
+
+    // --- Stereo ---
+    let left = mixChannel;
+    let right = mixChannel;
+    if (stereo) {
+      left = channel(stereo.left.frequencyData, leftFollower.process(stereo.left.frequencyData, timeMs, dt).levels);
+      right = channel(stereo.right.frequencyData, rightFollower.process(stereo.right.frequencyData, timeMs, dt).levels);
+      const measured = measureStereo(stereo.left.timeDomainData, stereo.right.timeDomainData);
+      const k = dt === 0 ? 1 : coefficient(opts.stereoSmoothingMs, dt);
+      stereoState = {
+        balance: stereoState.balance + (measured.balance - stereoState.balance) * k,
+        correlation: stereoState.correlation + (measured.correlation - stereoState.correlation) * k,
+        width: stereoState.width + (measured.width - stereoState.width) * k
+      };
+    } else {
+      stereoState = { balance: 0, correlation: 1, width: 0 };
+    }
+
+    return {
+      frequencyData,
+      timeDomainData,
+      overallAmplitude: sum / frequencyData.length,
+      bass: mixChannel.bass,
+      mid: mixChannel.mid,
+      treble: mixChannel.treble,
+      bands: mix.levels,
+      bandPeaks: mix.peaks,
+      ...beatDetector.process(frequencyData, timeMs),
+      left,
+      right,
+      ...stereoState
+    };
+  };
+
+  const reset = () => {
+    mixFollower.reset();
+    leftFollower.reset();
+    rightFollower.reset();
+    stereoState = { balance: 0, correlation: 1, width: 0 };
+    lastTimeMs = null;
+    beatDetector.reset();
+  };
+
+  return { bands, analyze, reset };
+};
@@ -0,0 +1,238 @@
+import { BackgroundStyle } from "../types";
+
+// Background fragment shaders. Every variant, built-in or typed into the
+// editor, is a GLSL ES 3.00 body placed under SHADER_HEADER, so they all
+// share one set of uniforms. Bodies are test-compiled on the renderer's own
+// context before use; a broken edit reports its errors and the last good
+// shader keeps running.
+
+const STORAGE_KEY = "ferro.shader";
+
+// Uniforms every background can read. Keep in sync with ThreeScene.
+const SHADER_HEADER = `precision highp float;
+precision highp int;
+uniform float uTime;         // Scene time, 0.3 per second; scale it yourself by uMood
+uniform float uEnergy;       // Smoothed bass, 0..1
+uniform float uMood;         // 0 calm .. 1 intense, slow moving
+uniform float uBeat;         // 1 on a beat, decays to 0
+uniform float uBeatPhase;    // 0..1 position inside the current beat
+uniform vec3 uColor1;        // Background color
+uniform vec3 uColor2;        // Secondary color
+uniform vec3 uColor3;        // Primary color
+uniform sampler2D uSpectrum; // Spectrum in .r, low to high frequencies along x
+in vec2 vUv;
+out vec4 fragColor;
+#define gl_FragColor fragColor
+#define texture2D texture
+`;
+
+// Lines before the first body line: "#version 300 es" plus the header
+const HEADER_LINES = SHADER_HEADER.split("\n").length;
+
+export const BACKGROUND_VERTEX_SHADER = `in vec3 position;
+in vec2 uv;
+uniform mat4 modelViewMatrix;
+uniform mat4 projectionMatrix;
+out vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+const AURORA = `// Soft interfering waves, sharper and brighter as the mood rises
+float random(in vec2 st) {
+  return fract(sin(dot(st.xy, vec2(12.9898, 78.233))) * 43758.5453123);
+}
+
+float noise(in vec2 st) {
+  vec2 i = floor(st);
+  vec2 f = fract(st);
+  float a = random(i);
+  float b = random(i + vec2(1.0, 0.0));
+  float c = random(i + vec2(0.0, 1.0));
+  float d = random(i + vec2(1.0, 1.0));
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  return mix(a, b, u.x) + (c - a) * u.y * (1.0 - u.x) + (d - b) * u.x * u.y;
+}
+
+void main() {
+  vec2 uv = vUv;
+  float t = uTime * (0.1 + uMood * 0.4);
+  vec2 p = uv * 2.0 - 1.0;
+  float frequency = mix(2.0, 8.0, uMood);
+  float complexity = mix(0.5, 1.5, uMood);
+  float wave1 = sin(p.x * frequency + t) + sin(p.y * (frequency * 0.8) + t * 0.8);
+  float wave2 = sin(p.x * (frequency * 1.5) - t * 1.5) + sin(p.y * (frequency * 1.2) + t * 0.5);
+  float n = noise(uv * 10.0 + t) * uMood * 0.2;
+  float intensity = (wave1 + wave2 * complexity) / (2.0 + complexity) + n;
+  intensity = intensity * 0.5 + 0.5;
+
+  float mixFactor = smoothstep(0.0, 1.0, uv.y * 0.6 + intensity * 0.4);
+  mixFactor = clamp((mixFactor - 0.5) * (1.0 + uMood) + 0.5, 0.0, 1.0);
+
+  vec3 base = mix(uColor1, uColor2, mixFactor);
+  float glowThreshold = mix(0.4, 0.6, uMood);
+  float glowSize = mix(0.4, 0.1, uMood);
+  float glow = smoothstep(glowThreshold, glowThreshold + glowSize, intensity);
+
+  vec3 finalColor = mix(base, uColor3, glow * (0.5 + uEnergy * 0.5));
+  float dist = distance(vUv, vec2(0.5));
+  finalColor *= (1.2 - dist * 0.6);
+  if (uMood > 0.5) {
+    finalColor = pow(finalColor, vec3(1.1 + (uMood - 0.5)));
+  }
+  fragColor = vec4(finalColor, 1.0);
+}
+`;
+
+const PLASMA = `// Classic plasma; the spectrum bends the field and beats flash the peaks
+void main() {
+  vec2 p = (vUv - 0.5) * 6.0;
+  float t = uTime * (0.3 + uMood * 0.7);
+  float bend = texture(uSpectrum, vec2(0.08, 0.5)).r * 2.0;
+
+  float v = sin(p.x + t);
+  v += sin((p.y + t) * 0.5);
+  v += sin((p.x + p.y + t) * 0.5);
+  vec2 c = p + vec2(sin(t * 0.33), cos(t * 0.5)) * (2.0 + bend);
+  v += sin(sqrt(dot(c, c) + 1.0) + t);
+  v = v * 0.25 + 0.5;
+
+  vec3 color = mix(uColor1, uColor2, smoothstep(0.2, 0.8, v));
+  float peak = smoothstep(0.75, 1.0, v);
+  color = mix(color, uColor3, peak * (0.4 + uEnergy * 0.6 + uBeat * 0.4));
+  color *= 1.1 - distance(vUv, vec2(0.5)) * 0.8;
+  fragColor = vec4(color, 1.0);
+}
+`;
+
+const STARFIELD = `// Layers of stars rushing outwards, faster with the bass
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+vec3 starLayer(vec2 p, float depth) {
+  vec2 cell = floor(p);
+  vec2 local = fract(p) - 0.5;
+  float h = hash(cell + depth * 17.0);
+  if (h < 0.85) return vec3(0.0);
+  vec2 offset = vec2(hash(cell + 3.1), hash(cell + 7.7)) - 0.5;
+  float d = length(local - offset * 0.6);
+  // Each star twinkles with its own slice of the spectrum
+  float level = texture(uSpectrum, vec2(fract(h * 13.0), 0.5)).r;
+  float size = 0.02 + level * 0.05 + uBeat * 0.02;
+  return mix(uColor3, uColor2, fract(h * 7.0)) * smoothstep(size, 0.0, d) * (0.6 + level);
+}
+
+void main() {
+  vec2 p = vUv - 0.5;
+  float speed = 0.05 + uEnergy * 0.3 + uMood * 0.1;
+  vec3 color = uColor1 * 0.6;
+  for (int i = 0; i < 4; i++) {
+    float depth = fract(float(i) * 0.25 + uTime * speed);
+    float scale = mix(40.0, 4.0, depth);
+    float fade = smoothstep(0.0, 0.2, depth) * smoothstep(1.0, 0.8, depth);
+    color += starLayer(p * scale + float(i) * 10.0, float(i)) * fade;
+  }
+  fragColor = vec4(color, 1.0);
+}
+`;
+
+const TUNNEL = `// Endless tunnel; rings pulse on the beat, the walls follow the spectrum
+void main() {
+  vec2 p = (vUv - 0.5) * 2.0;
+  float radius = length(p) + 1e-4;
+  float angle = atan(p.y, p.x);
+  float speed = 0.4 + uEnergy * 1.2 + uMood * 0.6;
+
+  float depth = 0.3 / radius + uTime * speed;
+  float twist = angle / 3.14159265 + uTime * 0.05;
+  float level = texture(uSpectrum, vec2(abs(fract(twist) * 2.0 - 1.0) * 0.6, 0.5)).r;
+
+  float rings = smoothstep(0.45, 0.5, abs(fract(depth) - 0.5)) * (0.5 + uBeat * 0.5);
+  float stripes = smoothstep(0.3, 0.5, abs(fract(twist * 8.0) - 0.5)) * level;
+
+  vec3 color = mix(uColor1, uColor2, stripes);
+  color = mix(color, uColor3, rings);
+  // Fade into the distance at the center
+  color *= smoothstep(0.0, 0.6, radius);
+  fragColor = vec4(color, 1.0);
+}
+`;
+
+export type BuiltInBackground = Exclude<BackgroundStyle, BackgroundStyle.Custom>;
+
+// `description` is shown to the config generator
+export const BUILT_IN_BACKGROUNDS: Record<BuiltInBackground, { name: string; description: string; source: string }> = {
+  [BackgroundStyle.Aurora]: { name: "Aurora", description: "Soft flowing color waves. Calm, versatile default.", source: AURORA },
+  [BackgroundStyle.Plasma]: { name: "Plasma", description: "Swirling retro plasma. Psychedelic, warm, groovy.", source: PLASMA },
+  [BackgroundStyle.Starfield]: { name: "Starfield", description: "Stars flying past. Space, cosmic, night.", source: STARFIELD },
+  [BackgroundStyle.Tunnel]: { name: "Tunnel", description: "Endless beat-pulsing tunnel. Driving, hypnotic, fast.", source: TUNNEL }
+};
+
+export const BUILT_IN_BACKGROUND_IDS = Object.keys(BUILT_IN_BACKGROUNDS) as BuiltInBackground[];
+
+/**
+ * Body for a background style; CUSTOM uses the editor's source.
+ */
+export const backgroundSource = (style: BackgroundStyle, customSource: string) =>
+  style === BackgroundStyle.Custom ? customSource : BUILT_IN_BACKGROUNDS[style].source;
+
+// three prepends the version line itself (glslVersion on the material)
+export const buildBackgroundShader = (body: string) => SHADER_HEADER + body;
+
+export interface ShaderError {
+  line: number | null; // 1-based line in the body, null when not tied to a line
+  message: string;
+}
+
+/**
+ * Turns a driver info log into errors with lines relative to the body.
+ * Drivers mostly print "ERROR: 0:<line>: <message>".
+ */
+export const parseShaderLog = (log: string): ShaderError[] =>
+  log
+    .split("\n")
+    .map((entry) => entry.trim())
+    // Drop the summary lines some drivers append
+    .filter((entry) => entry && !/compilation errors?\b|compilation terminated/i.test(entry))
+    .map((entry) => {
+      const match = entry.match(/^(?:ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/);
+      if (!match) return { line: null, message: entry };
+      const line = Number(match[1]) - HEADER_LINES;
+      return line >= 1 ? { line, message: match[2] } : { line: null, message: match[2] };
+    });
+
+/**
+ * Compiles a body as a fragment shader on `gl` and returns its errors, empty
+ * when it compiles.
+ */
+export const checkBackgroundShader = (gl: WebGL2RenderingContext, body: string): ShaderError[] => {
+  const shader = gl.createShader(gl.FRAGMENT_SHADER);
+  if (!shader) return [{ line: null, message: "Could not create a shader (is the WebGL context lost?)" }];
+  gl.shaderSource(shader, `#version 300 es\n${buildBackgroundShader(body)}`);
+  gl.compileShader(shader);
+  const errors = gl.getShaderParameter(shader, gl.COMPILE_STATUS)
+    ? []
+    : parseShaderLog(gl.getShaderInfoLog(shader) ?? "Unknown compile error");
+  gl.deleteShader(shader);
+  return errors;
+};
+
+export const loadCustomShader = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? PLASMA;
+  } catch (error) {
+    console.error("Failed to load custom shader:", error);
+    return PLASMA;
+  }
+};
+
+export const saveCustomShader = (source: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, source);
+  } catch (error) {
+    console.error("Failed to save custom shader:", error);
+  }
+};
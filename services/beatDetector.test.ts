@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { BeatDetectorOptions, createBeatDetector } from "./beatDetector";
+
+const FRAME_MS = 10;
+
+// One loud frame on every beat, silence in between
+const clickTrack = (bpm: number, seconds: number, options?: BeatDetectorOptions) => {
+  const detector = createBeatDetector(options);
+  const silent = new Uint8Array(512);
+  const loud = new Uint8Array(512).fill(255);
+  const beatMs = 60000 / bpm;
+  let state = detector.process(silent, 0);
+  for (let t = FRAME_MS; t <= seconds * 1000; t += FRAME_MS) {
+    const onBeat = t % beatMs < FRAME_MS;
+    state = detector.process(onBeat ? loud : silent, t);
+  }
+  return state;
+};
+
+describe("createBeatDetector", () => {
+  it("estimates the tempo of a click track", () => {
+    expect(clickTrack(120, 8).bpm).toBeCloseTo(120, -1);
+  });
+
+  it("folds half and double tempo onto the same estimate", () => {
+    const half = clickTrack(75, 8).bpm;
+    const full = clickTrack(150, 8).bpm;
+    expect(full).toBeCloseTo(150, -1);
+    expect(half).toBeCloseTo(full, 0);
+  });
+
+  it("folds into the octave above minBpm", () => {
+    expect(clickTrack(150, 8, { minBpm: 60 }).bpm).toBeCloseTo(75, -1);
+    expect(clickTrack(75, 8, { minBpm: 100 }).bpm).toBeCloseTo(150, -1);
+  });
+
+  it("reports onsets only on the clicks", () => {
+    const detector = createBeatDetector();
+    const silent = new Uint8Array(512);
+    const loud = new Uint8Array(512).fill(255);
+    const onsets: number[] = [];
+    for (let t = 0; t <= 4000; t += FRAME_MS) {
+      if (detector.process(t % 500 === 0 && t > 0 ? loud : silent, t).onset) onsets.push(t);
+    }
+    expect(onsets).toEqual([500, 1000, 1500, 2000, 2500, 3000, 3500, 4000]);
+  });
+});
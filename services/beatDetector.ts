@@ -0,0 +1,173 @@
+// Spectral-flux onset detection with an adaptive threshold, plus a simple
+// phase-locked tempo tracker. Pure TypeScript so it runs the same on live
+// analyser frames and on spectra computed from decoded audio.
+
+export interface BeatDetectorOptions {
+  historySize?: number;        // Number of flux values used for the adaptive threshold
+  thresholdMultiplier?: number; // Standard deviations above the mean required for an onset
+  minFlux?: number;            // Absolute floor, keeps silence from triggering onsets
+  minOnsetIntervalMs?: number; // Refractory period between two onsets
+  minBpm?: number;             // Tempos fold into [minBpm, 2 * minBpm)
+}
+
+export interface BeatState {
+  onset: boolean;    // Sudden spectral change this frame
+  beat: boolean;     // Tempo grid crossed a beat this frame
+  beatPhase: number; // 0..1 position inside the current beat
+  bpm: number;       // Estimated tempo, 0 until enough onsets were seen
+}
+
+export interface BeatDetector {
+  process: (spectrum: Uint8Array, timeMs: number) => BeatState;
+  reset: () => void;
+}
+
+const DEFAULT_OPTIONS: Required<BeatDetectorOptions> = {
+  historySize: 43,
+  thresholdMultiplier: 1.5,
+  minFlux: 0.01,
+  minOnsetIntervalMs: 120,
+  minBpm: 90
+};
+
+// How long onset times are remembered for tempo estimation
+const ONSET_WINDOW_MS = 8000;
+// Intervals longer than this are not considered when pairing onsets
+const MAX_PAIR_INTERVAL_MS = 2000;
+
+// Folds a raw bpm into the octave [min, 2 * min) so that half/double tempo
+// candidates vote for the same bin.
+const foldBpm = (bpm: number, min: number) => {
+  let folded = bpm;
+  while (folded < min) folded *= 2;
+  while (folded >= min * 2) folded /= 2;
+  return folded;
+};
+
+export const createBeatDetector = (options: BeatDetectorOptions = {}): BeatDetector => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const minBpm = Math.max(1, opts.minBpm);
+
+  let previous: Float32Array | null = null;
+  let fluxHistory: number[] = [];
+  let onsetTimes: number[] = [];
+  let lastOnsetMs = -Infinity;
+  let lastTimeMs: number | null = null;
+  let bpm = 0;
+  let phase = 0;
+
+  const estimateBpm = () => {
+    if (onsetTimes.length < 4) return 0;
+
+    // Histogram of pairwise inter-onset intervals, folded into one octave,
+    // one bin per bpm
+    const binCount = Math.ceil(minBpm);
+    const bins = new Float32Array(binCount);
+    for (let i = 0; i < onsetTimes.length; i++) {
+      for (let j = i + 1; j < onsetTimes.length; j++) {
+        const interval = onsetTimes[j] - onsetTimes[i];
+        if (interval > MAX_PAIR_INTERVAL_MS) break;
+        if (interval <= 0) continue;
+        const candidate = foldBpm(60000 / interval, minBpm);
+        const bin = Math.floor(candidate - minBpm);
+        // Spread each vote over neighbouring bins to tolerate jitter
+        for (let k = -2; k <= 2; k++) {
+          const b = bin + k;
+          if (b >= 0 && b < binCount) bins[b] += 1 / (1 + Math.abs(k));
+        }
+      }
+    }
+
+    let best = -1;
+    let bestScore = 0;
+    for (let b = 0; b < binCount; b++) {
+      if (bins[b] > bestScore) {
+        bestScore = bins[b];
+        best = b;
+      }
+    }
+    return best < 0 ? 0 : minBpm + best + 0.5;
+  };
+
+  const process = (spectrum: Uint8Array, timeMs: number): BeatState => {
+    const dt = lastTimeMs === null ? 0 : Math.max(0, timeMs - lastTimeMs);
+    lastTimeMs = timeMs;
+
+    // --- Spectral Flux ---
+    // Sum of positive bin differences, normalized to 0..1
+    let flux = 0;
+    if (previous && previous.length === spectrum.length) {
+      for (let i = 0; i < spectrum.length; i++) {
+        const diff = spectrum[i] - previous[i];
+        if (diff > 0) flux += diff;
+      }
+      flux /= spectrum.length * 255;
+    }
+    if (!previous || previous.length !== spectrum.length) {
+      previous = new Float32Array(spectrum.length);
+    }
+    previous.set(spectrum);
+
+    // --- Adaptive Threshold ---
+    let mean = 0;
+    for (const f of fluxHistory) mean += f;
+    mean = fluxHistory.length ? mean / fluxHistory.length : 0;
+    let variance = 0;
+    for (const f of fluxHistory) variance += (f - mean) * (f - mean);
+    const std = fluxHistory.length ? Math.sqrt(variance / fluxHistory.length) : 0;
+    const threshold = Math.max(opts.minFlux, mean + std * opts.thresholdMultiplier);
+
+    fluxHistory.push(flux);
+    if (fluxHistory.length > opts.historySize) fluxHistory.shift();
+
+    const onset = fluxHistory.length >= opts.historySize / 2
+      && flux > threshold
+      && timeMs - lastOnsetMs >= opts.minOnsetIntervalMs;
+
+    if (onset) {
+      lastOnsetMs = timeMs;
+      onsetTimes.push(timeMs);
+      while (onsetTimes.length && timeMs - onsetTimes[0] > ONSET_WINDOW_MS) onsetTimes.shift();
+
+      const estimate = estimateBpm();
+      if (estimate > 0) {
+        bpm = bpm > 0 ? bpm + (estimate - bpm) * 0.2 : estimate;
+      }
+    }
+
+    // --- Beat Phase ---
+    // Free-running oscillator at the estimated tempo, nudged towards onsets
+    let beat = false;
+    if (bpm > 0) {
+      phase += (dt / 1000) * (bpm / 60);
+      if (phase >= 1) {
+        phase -= Math.floor(phase);
+        beat = true;
+      }
+      if (onset) {
+        // Pull the grid towards the onset (shortest way around the cycle)
+        const error = phase > 0.5 ? phase - 1 : phase;
+        phase -= error * 0.3;
+        if (phase < 0) phase += 1;
+      }
+    } else {
+      // No tempo yet: every onset counts as a beat
+      beat = onset;
+      if (onset) phase = 0;
+    }
+
+    return { onset, beat, beatPhase: phase, bpm };
+  };
+
+  const reset = () => {
+    previous = null;
+    fluxHistory = [];
+    onsetTimes = [];
+    lastOnsetMs = -Infinity;
+    lastTimeMs = null;
+    bpm = 0;
+    phase = 0;
+  };
+
+  return { process, reset };
+};
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { VisualizerMode } from "../types";
+import { createConfigGenerator, loadGeneratorSettings, saveGeneratorSettings } from "./configGenerator";
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    }
+  };
+};
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", memoryStorage());
+  vi.stubGlobal("sessionStorage", memoryStorage());
+});
+
+describe("config generator without an API key", () => {
+  it("defaults to Gemini", () => {
+    expect(loadGeneratorSettings().provider).toBe("gemini");
+  });
+
+  it("answers through the offline interpreter and says so", async () => {
+    const generator = createConfigGenerator(loadGeneratorSettings());
+    const dubstep = await generator.generate("dark dubstep");
+    const clouds = await generator.generate("soft clouds");
+
+    expect(dubstep.fallbackReason).toMatch(/no gemini api key/i);
+    expect(dubstep.config.mode).toBe(VisualizerMode.Ferrofluid);
+    expect(clouds.config.mode).not.toBe(dubstep.config.mode);
+  });
+});
+
+describe("API key storage", () => {
+  it("keeps the key out of localStorage unless asked to remember it", () => {
+    saveGeneratorSettings({ ...loadGeneratorSettings(), apiKey: "secret" });
+    expect(localStorage.getItem("ferro.generator")).not.toContain("secret");
+    expect(loadGeneratorSettings().apiKey).toBe("secret");
+
+    vi.stubGlobal("sessionStorage", memoryStorage()); // A new tab
+    expect(loadGeneratorSettings().apiKey).toBe("");
+  });
+
+  it("remembers the key when opted in", () => {
+    saveGeneratorSettings({ ...loadGeneratorSettings(), apiKey: "secret", rememberKey: true });
+    vi.stubGlobal("sessionStorage", memoryStorage());
+    expect(loadGeneratorSettings()).toMatchObject({ apiKey: "secret", rememberKey: true });
+  });
+
+  it("moves a plaintext key without the remember flag out of localStorage", () => {
+    localStorage.setItem("ferro.generator", JSON.stringify({ provider: "openai", model: "llama3.1", baseUrl: "", apiKey: "secret" }));
+    expect(loadGeneratorSettings().apiKey).toBe("secret");
+    expect(localStorage.getItem("ferro.generator")).not.toContain("secret");
+    expect(sessionStorage.getItem("ferro.generator.key")).toBe("secret");
+  });
+});
@@ -0,0 +1,255 @@
+import { VisualConfig, VisualizerMode, GeometryType, BackgroundStyle } from "../types";
+import { CONFIG_RANGES, validateVisualConfig, ValidationResult } from "./configValidation";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleService";
+import { createMockProvider } from "./mockConfigService";
+import { MODES, MODE_IDS } from "../components/modes";
+import { interpretVibe, refineVibe } from "./vibeInterpreter";
+import { BUILT_IN_BACKGROUNDS, BUILT_IN_BACKGROUND_IDS } from "./backgroundShaders";
+import { EFFECTS, EFFECT_TYPES } from "../components/effects";
+
+// Provider independent config generation. Every provider receives the same
+// prompt text and response schema and only has to return the raw JSON text;
+// parsing, validation and fallbacks live here so all providers behave alike.
+
+export type ProviderId = "gemini" | "openai" | "mock";
+
+export interface GeneratorSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl: string; // OpenAI compatible servers only
+  apiKey: string;  // Empty uses the key the app was built with (Gemini)
+  rememberKey: boolean; // Keep the key in localStorage; otherwise it lasts for this tab only
+}
+
+export interface ConfigRequest {
+  instruction: string;     // What the user typed
+  current: VisualConfig | null; // Set when refining an existing look
+  history: string[];       // Earlier prompts of the conversation, oldest first
+  text: string;            // Full prompt for language models
+  schema: typeof CONFIG_RESPONSE_SCHEMA;
+  model: string;
+}
+
+// A backend that turns a request into the JSON text of a config
+export interface ConfigProvider {
+  complete: (request: ConfigRequest) => Promise<string>;
+}
+
+export interface ConfigGenerator {
+  generate: (prompt: string) => Promise<GenerationResult>;
+  refine: (current: VisualConfig, history: string[], instruction: string) => Promise<GenerationResult>;
+}
+
+export interface GenerationResult extends ValidationResult {
+  // Why the offline interpreter answered instead of the provider, null if it did not
+  fallbackReason: string | null;
+}
+
+export const GENERATOR_PROVIDERS: { id: ProviderId; label: string; models: string[] }[] = [
+  { id: "gemini", label: "Gemini", models: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"] },
+  { id: "openai", label: "OpenAI compatible", models: ["gpt-4o-mini", "llama3.1", "qwen2.5"] },
+  { id: "mock", label: "Mock (offline)", models: ["mock"] }
+];
+
+const STORAGE_KEY = "ferro.generator";
+// The API key lives here unless the user asks to remember it: sessionStorage
+// is per tab and gone when the tab closes
+const SESSION_KEY_STORAGE_KEY = "ferro.generator.key";
+
+const DEFAULT_CONFIG: VisualConfig = {
+  mode: VisualizerMode.Orbit,
+  geometryType: GeometryType.Box,
+  background: BackgroundStyle.Aurora,
+  primaryColor: "#00ffcc",
+  secondaryColor: "#ff00ff",
+  backgroundColor: "#1a1a2e",
+  particleSize: 0.5,
+  rotationSpeed: 0.5,
+  sensitivity: 1.5,
+  bloomIntensity: 1.0,
+  effects: [],
+  description: "Default cyberpunk aesthetic"
+};
+
+const range = (field: keyof typeof CONFIG_RANGES) =>
+  `${CONFIG_RANGES[field].min.toFixed(1)} to ${CONFIG_RANGES[field].max.toFixed(1)}`;
+
+// Plain JSON Schema so it can be handed to any provider unchanged
+export const CONFIG_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    mode: { type: "string", enum: MODE_IDS },
+    geometryType: { type: "string", enum: Object.values(GeometryType) },
+    background: { type: "string", enum: BUILT_IN_BACKGROUND_IDS },
+    primaryColor: { type: "string", description: "Hex color code for main elements" },
+    secondaryColor: { type: "string", description: "Hex color code for accents" },
+    backgroundColor: { type: "string", description: "Hex color code for background. DO NOT USE PURE BLACK. Use dark colors like #111, #0a1020, #1a0505 etc." },
+    particleSize: { type: "number", description: range("particleSize") },
+    rotationSpeed: { type: "number", description: range("rotationSpeed") },
+    sensitivity: { type: "number", description: `Audio reactivity multiplier, ${range("sensitivity")}` },
+    bloomIntensity: { type: "number", description: range("bloomIntensity") },
+    effects: {
+      type: "array",
+      description: "Post-processing effects applied after bloom, top to bottom. Each type at most once; an empty list keeps the picture clean.",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: EFFECT_TYPES },
+          intensity: { type: "number", description: "Strength, 0.0 to 1.0" },
+          reactivity: { type: "number", description: "How much the music drives the effect, 0.0 to 1.0" }
+        },
+        required: ["type", "intensity", "reactivity"],
+        additionalProperties: false
+      }
+    },
+    description: { type: "string", description: "Short rationale for the design" }
+  },
+  required: ["mode", "geometryType", "background", "primaryColor", "secondaryColor", "backgroundColor", "particleSize", "rotationSpeed", "sensitivity", "bloomIntensity", "effects", "description"],
+  additionalProperties: false
+};
+
+const VOCABULARY = `
+      Modes:
+      ${MODES.map((mode) => `- ${mode.id}: ${mode.description} Pairs well with ${mode.preferredGeometry}.`).join("\n      ")}
+
+      Geometries:
+      - BOX: Solid, digital, harsh. Good for techno/glitch.
+      - SPHERE: Soft, organic, smooth. Good for ambient/lo-fi.
+      - TETRAHEDRON: Sharp, triangular, aggressive. Good for high energy/rock.
+      - OCTAHEDRON: Diamond-like, crystalline. Good for ethereal/pop.
+      - TORUS: Ring, donut, complex. Good for psychedelic/trance.
+      - CONE: Pointy, directional. Good for driving/fast music.
+
+      Backgrounds:
+      ${BUILT_IN_BACKGROUND_IDS.map((id) => `- ${id}: ${BUILT_IN_BACKGROUNDS[id].description}`).join("\n      ")}
+
+      Effects (use 0 to 3, order matters, subtle intensities often look best):
+      ${EFFECTS.map((effect) => `- ${effect.type}: ${effect.description}`).join("\n      ")}
+      `;
+
+const generatePrompt = (prompt: string) =>
+  `Generate a JSON configuration for a 3D music visualizer based on this vibe/prompt: "${prompt}". 
+      
+      Determine the best visual mode, geometry shape, colors, and parameters to match the feeling of the music described.
+      ${VOCABULARY}`;
+
+const refinePrompt = (current: VisualConfig, history: string[], instruction: string) =>
+  `You are refining the configuration of a 3D music visualizer. Here is the current configuration:
+      ${JSON.stringify(current, null, 2)}
+
+      Earlier instructions in this session, oldest first:
+      ${history.length ? history.map((turn, i) => `${i + 1}. "${turn}"`).join("\n      ") : "(none)"}
+
+      New instruction: "${instruction}"
+
+      Return the full configuration with the instruction applied. Change only what the instruction asks for and keep every other field exactly as it is. Relative requests ("darker", "slower", "more blue") are relative to the current values. Update the description to summarize the new look.
+      ${VOCABULARY}`;
+
+const createProvider = (settings: GeneratorSettings): ConfigProvider => {
+  switch (settings.provider) {
+    case "openai":
+      return createOpenAiCompatibleProvider(settings.baseUrl, settings.apiKey);
+    case "mock":
+      return createMockProvider();
+    case "gemini":
+    default:
+      return createGeminiProvider(settings.apiKey || process.env.API_KEY || "");
+  }
+};
+
+export const createConfigGenerator = (settings: GeneratorSettings): ConfigGenerator => {
+  const provider = createProvider(settings);
+  // Gemini without any key has nothing to call; answer offline right away
+  const offlineReason = settings.provider === "gemini" && !(settings.apiKey || process.env.API_KEY)
+    ? "No Gemini API key configured"
+    : null;
+
+  const interpret = (request: Omit<ConfigRequest, "schema" | "model">, fallback: VisualConfig, reason: string): GenerationResult => {
+    const interpreted = request.current
+      ? refineVibe(request.current, request.instruction)
+      : interpretVibe(request.instruction, fallback);
+    return { ...validateVisualConfig(interpreted, fallback), fallbackReason: reason };
+  };
+
+  // Any failure falls back to the offline interpreter
+  const run = async (request: Omit<ConfigRequest, "schema" | "model">, fallback: VisualConfig): Promise<GenerationResult> => {
+    if (offlineReason) return interpret(request, fallback, offlineReason);
+    try {
+      const text = await provider.complete({ ...request, schema: CONFIG_RESPONSE_SCHEMA, model: settings.model });
+      const result = validateVisualConfig(JSON.parse(text), fallback);
+      if (result.corrections.length) {
+        console.warn(`${settings.provider} config corrected:`, result.corrections);
+      }
+      return { ...result, fallbackReason: null };
+    } catch (error) {
+      console.error(`Config generation failed (${settings.provider}):`, error);
+      return interpret(request, fallback, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return {
+    generate: (prompt) =>
+      run({ instruction: prompt, current: null, history: [], text: generatePrompt(prompt) }, DEFAULT_CONFIG),
+    refine: (current, history, instruction) =>
+      run({ instruction, current, history, text: refinePrompt(current, history, instruction) }, current)
+  };
+};
+
+export const defaultModel = (provider: ProviderId) =>
+  GENERATOR_PROVIDERS.find((p) => p.id === provider)?.models[0] ?? "";
+
+// Gemini even without a build time key: prompts then go through the offline
+// interpreter until a key is entered. The mock is only for tests and demos.
+const defaultSettings = (): GeneratorSettings => ({
+  provider: "gemini",
+  model: defaultModel("gemini"),
+  baseUrl: "http://localhost:11434/v1",
+  apiKey: "",
+  rememberKey: false
+});
+
+const loadSessionKey = (): string => {
+  try {
+    return sessionStorage.getItem(SESSION_KEY_STORAGE_KEY) ?? "";
+  } catch (error) {
+    console.error("Failed to load API key:", error);
+    return "";
+  }
+};
+
+export const loadGeneratorSettings = (): GeneratorSettings => {
+  const defaults = defaultSettings();
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!stored || !GENERATOR_PROVIDERS.some((p) => p.id === stored.provider)) return { ...defaults, apiKey: loadSessionKey() };
+    const rememberKey = stored.rememberKey === true;
+    const settings: GeneratorSettings = {
+      provider: stored.provider,
+      model: typeof stored.model === "string" && stored.model ? stored.model : defaultModel(stored.provider),
+      baseUrl: typeof stored.baseUrl === "string" ? stored.baseUrl : defaults.baseUrl,
+      apiKey: rememberKey && typeof stored.apiKey === "string" ? stored.apiKey : loadSessionKey(),
+      rememberKey
+    };
+    // A stored key without the remember flag moves to this tab's storage
+    if (!rememberKey && typeof stored.apiKey === "string" && stored.apiKey) {
+      settings.apiKey ||= stored.apiKey;
+      saveGeneratorSettings(settings);
+    }
+    return settings;
+  } catch (error) {
+    console.error("Failed to load generator settings:", error);
+    return defaults;
+  }
+};
+
+export const saveGeneratorSettings = (settings: GeneratorSettings) => {
+  try {
+    const { apiKey, ...rest } = settings;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings.rememberKey ? settings : rest));
+    if (settings.rememberKey || !apiKey) sessionStorage.removeItem(SESSION_KEY_STORAGE_KEY);
+    else sessionStorage.setItem(SESSION_KEY_STORAGE_KEY, apiKey);
+  } catch (error) {
+    console.error("Failed to save generator settings:", error);
+  }
+};
@@ -0,0 +1,81 @@
+import { VisualConfig, GeometryType, EffectConfig } from "../types";
+import { MODE_IDS } from "../components/modes";
+import { EFFECT_TYPES } from "../components/effects";
+import { CONFIG_RANGES, COLOR_FIELDS, NUMERIC_FIELDS, ColorField, NumericField } from "./configValidation";
+import { hslToHex } from "./color";
+import { BUILT_IN_BACKGROUND_IDS } from "./backgroundShaders";
+
+// Per-field lock and randomize for the live control panel. A locked field
+// keeps its value when a generated config comes in; randomizing picks a new
+// value inside the same ranges the generator is held to.
+
+const STORAGE_KEY = "ferro.locks";
+
+export type ControlField = "mode" | "geometryType" | "background" | ColorField | NumericField | "effects";
+
+export const CONTROL_FIELDS: ControlField[] = ["mode", "geometryType", "background", ...COLOR_FIELDS, ...NUMERIC_FIELDS, "effects"];
+
+// Most rolls should leave the picture readable
+const MAX_RANDOM_EFFECTS = 3;
+
+/**
+ * `incoming` with every locked field taken from `current`.
+ */
+export const applyLocks = (incoming: VisualConfig, current: VisualConfig, locked: ControlField[]): VisualConfig =>
+  locked.reduce((config, field) => ({ ...config, [field]: current[field] }), incoming);
+
+const pick = <T>(options: T[], random: () => number) => options[Math.floor(random() * options.length)];
+
+const randomEffects = (random: () => number): EffectConfig[] => {
+  const types = [...EFFECT_TYPES];
+  return Array.from({ length: Math.floor(random() * (MAX_RANDOM_EFFECTS + 1)) }, () => ({
+    type: types.splice(Math.floor(random() * types.length), 1)[0],
+    intensity: Math.round((0.3 + random() * 0.5) * 100) / 100,
+    reactivity: Math.round(random() * 100) / 100
+  }));
+};
+
+const randomValue = (field: ControlField, random: () => number): VisualConfig[ControlField] => {
+  switch (field) {
+    case "mode":
+      return pick(MODE_IDS, random);
+    case "geometryType":
+      return pick(Object.values(GeometryType), random);
+    case "background":
+      // A custom shader is a deliberate choice, never a dice roll
+      return pick(BUILT_IN_BACKGROUND_IDS, random);
+    case "backgroundColor":
+      // Dark but clear of the "pure black" repair in validation
+      return hslToHex(random(), 0.4 + random() * 0.3, 0.06 + random() * 0.08);
+    case "primaryColor":
+    case "secondaryColor":
+      return hslToHex(random(), 0.7 + random() * 0.3, 0.45 + random() * 0.2);
+    case "effects":
+      return randomEffects(random);
+    default: {
+      const { min, max } = CONFIG_RANGES[field];
+      return Math.round((min + random() * (max - min)) * 100) / 100;
+    }
+  }
+};
+
+export const randomizeFields = (config: VisualConfig, fields: ControlField[], random: () => number = Math.random): VisualConfig =>
+  fields.reduce((next, field) => ({ ...next, [field]: randomValue(field, random) }), config);
+
+export const loadLockedFields = (): ControlField[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter((field): field is ControlField => CONTROL_FIELDS.includes(field)) : [];
+  } catch (error) {
+    console.error("Failed to load locked fields:", error);
+    return [];
+  }
+};
+
+export const saveLockedFields = (fields: ControlField[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(fields));
+  } catch (error) {
+    console.error("Failed to save locked fields:", error);
+  }
+};
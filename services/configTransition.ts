@@ -0,0 +1,78 @@
+import { EffectConfig, VisualConfig } from "../types";
+
+// Crossfades between two VisualConfigs. Continuous values are interpolated;
+// discrete ones (mode, geometry) switch immediately and expose the previous
+// value so the renderer can morph from the old layout to the new one. The
+// background shader has nothing to morph and swaps halfway through. Effects
+// fade: shared ones interpolate, new ones rise from 0 and removed ones stay
+// at the end of the chain until they have faded out.
+
+export interface ConfigTransition {
+  from: VisualConfig;
+  to: VisualConfig;
+  startTime: number; // Seconds on the scene clock
+  duration: number;  // Seconds, 0 for a hard cut
+}
+
+export interface BlendedConfig extends VisualConfig {
+  previousMode: string;
+  morph: number; // 0 = previous layout, 1 = target layout
+}
+
+const parseHex = (hex: string) => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const lerpHexColor = (a: string, b: string, t: number) => {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  return `#${ca
+    .map((c, i) => Math.round(c + (cb[i] - c) * t).toString(16).padStart(2, "0"))
+    .join("")}`;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Smooth start and end so cuts do not feel mechanical
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+export const transitionProgress = (transition: ConfigTransition, now: number) => {
+  if (transition.duration <= 0) return 1;
+  const t = Math.max(0, Math.min(1, (now - transition.startTime) / transition.duration));
+  return easeInOut(t);
+};
+
+const blendEffects = (from: EffectConfig[], to: EffectConfig[], t: number): EffectConfig[] => {
+  if (t >= 1) return to;
+  const blended = to.map((effect) => {
+    const previous = from.find((candidate) => candidate.type === effect.type);
+    return {
+      type: effect.type,
+      intensity: lerp(previous ? previous.intensity : 0, effect.intensity, t),
+      reactivity: previous ? lerp(previous.reactivity, effect.reactivity, t) : effect.reactivity
+    };
+  });
+  const removed = from
+    .filter((effect) => !to.some((candidate) => candidate.type === effect.type))
+    .map((effect) => ({ ...effect, intensity: effect.intensity * (1 - t) }));
+  return [...blended, ...removed];
+};
+
+export const blendConfigs = (from: VisualConfig, to: VisualConfig, t: number): BlendedConfig => ({
+  ...to,
+  primaryColor: lerpHexColor(from.primaryColor, to.primaryColor, t),
+  secondaryColor: lerpHexColor(from.secondaryColor, to.secondaryColor, t),
+  backgroundColor: lerpHexColor(from.backgroundColor, to.backgroundColor, t),
+  particleSize: lerp(from.particleSize, to.particleSize, t),
+  rotationSpeed: lerp(from.rotationSpeed, to.rotationSpeed, t),
+  sensitivity: lerp(from.sensitivity, to.sensitivity, t),
+  bloomIntensity: lerp(from.bloomIntensity, to.bloomIntensity, t),
+  background: t < 0.5 ? from.background : to.background,
+  effects: blendEffects(from.effects, to.effects, t),
+  previousMode: t >= 1 ? to.mode : from.mode,
+  morph: t
+});
+
+export const sampleTransition = (transition: ConfigTransition, now: number): BlendedConfig =>
+  blendConfigs(transition.from, transition.to, transitionProgress(transition, now));
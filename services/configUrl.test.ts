@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from "vitest";
+import { BackgroundStyle, GeometryType, VisualConfig, VisualizerMode } from "../types";
+import { decodeConfig, encodeConfig } from "./configUrl";
+
+const config: VisualConfig = {
+  mode: VisualizerMode.Ferrofluid,
+  geometryType: GeometryType.Sphere,
+  background: BackgroundStyle.Tunnel,
+  primaryColor: "#00d4ff",
+  secondaryColor: "#ff0055",
+  backgroundColor: "#2a1b3d",
+  particleSize: 0.6,
+  rotationSpeed: 0.5,
+  sensitivity: 1.2,
+  bloomIntensity: 1.2,
+  effects: [],
+  description: ""
+};
+
+describe("config links", () => {
+  it("round-trip a look", () => {
+    expect(decodeConfig(`#${encodeConfig(config)}`, { ...config, background: BackgroundStyle.Plasma })).toEqual({
+      ...config,
+      description: "Shared look"
+    });
+  });
+
+  it("share a built-in background in place of a custom shader", () => {
+    const params = new URLSearchParams(encodeConfig({ ...config, background: BackgroundStyle.Custom }));
+    expect(params.get("b")).toBe(BackgroundStyle.Aurora);
+  });
+
+  it("reject a custom background the recipient cannot reproduce", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const hash = encodeConfig(config).replace("b=TUNNEL", "b=CUSTOM");
+    expect(decodeConfig(hash, config)?.background).toBe(BackgroundStyle.Tunnel);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("background"));
+    warn.mockRestore();
+  });
+});
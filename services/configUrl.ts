@@ -0,0 +1,143 @@
+import { VisualConfig, GeometryType, BackgroundStyle, EffectConfig, EffectType } from "../types";
+import { MODE_IDS } from "../components/modes";
+import { EFFECT_TYPES } from "../components/effects";
+import { CONFIG_RANGES, ColorField, NumericField } from "./configValidation";
+import { BUILT_IN_BACKGROUND_IDS } from "./backgroundShaders";
+
+// Compact, shareable encoding of a VisualConfig in the URL hash, e.g.
+// #v=1&m=FERROFLUID&g=SPHERE&b=AURORA&c1=00d4ff&c2=ff0055&bg=2a1b3d&ps=0.6&rs=0.5&se=1.2&bl=1.2&fx=GLITCH-60-80.VIGNETTE-40-20
+// Effects are TYPE-intensity-reactivity with both in percent, in chain order.
+
+const URL_FORMAT_VERSION = "1";
+
+const NUMERIC_KEYS: Record<NumericField, string> = {
+  particleSize: "ps",
+  rotationSpeed: "rs",
+  sensitivity: "se",
+  bloomIntensity: "bl"
+};
+
+const COLOR_KEYS: Record<ColorField, string> = {
+  primaryColor: "c1",
+  secondaryColor: "c2",
+  backgroundColor: "bg"
+};
+
+// The shader source of a CUSTOM background does not fit in a link, and the
+// recipient would render whatever custom shader they have stored, so links
+// carry this built-in background instead
+const SHARED_CUSTOM_BACKGROUND = BackgroundStyle.Aurora;
+
+const HEX_PATTERN = /^[0-9a-f]{6}$/i;
+const EFFECT_PATTERN = /^([A-Z_]+)-(\d{1,3})-(\d{1,3})$/;
+
+const encodeEffects = (effects: EffectConfig[]) =>
+  effects
+    .map(({ type, intensity, reactivity }) => `${type}-${Math.round(intensity * 100)}-${Math.round(reactivity * 100)}`)
+    .join(".");
+
+// Null when any entry is malformed, unknown, repeated or out of range
+const decodeEffects = (value: string): EffectConfig[] | null => {
+  const effects: EffectConfig[] = [];
+  for (const entry of value ? value.split(".") : []) {
+    const match = entry.match(EFFECT_PATTERN);
+    if (!match) return null;
+    const type = match[1] as EffectType;
+    const intensity = Number(match[2]);
+    const reactivity = Number(match[3]);
+    if (!EFFECT_TYPES.includes(type) || effects.some((effect) => effect.type === type)) return null;
+    if (intensity > 100 || reactivity > 100) return null;
+    effects.push({ type, intensity: intensity / 100, reactivity: reactivity / 100 });
+  }
+  return effects;
+};
+
+export const encodeConfig = (config: VisualConfig): string => {
+  const params = new URLSearchParams();
+  params.set("v", URL_FORMAT_VERSION);
+  params.set("m", config.mode);
+  params.set("g", config.geometryType);
+  params.set("b", config.background === BackgroundStyle.Custom ? SHARED_CUSTOM_BACKGROUND : config.background);
+  for (const [field, key] of Object.entries(COLOR_KEYS) as [ColorField, string][]) {
+    params.set(key, config[field].replace("#", "").toLowerCase());
+  }
+  for (const [field, key] of Object.entries(NUMERIC_KEYS) as [NumericField, string][]) {
+    params.set(key, String(Math.round(config[field] * 100) / 100));
+  }
+  params.set("fx", encodeEffects(config.effects));
+  return params.toString();
+};
+
+/**
+ * Reads a config from a URL hash. Fields that are missing, malformed or out
+ * of range keep their fallback value; returns null if no field was usable.
+ */
+export const decodeConfig = (hash: string, fallback: VisualConfig): VisualConfig | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (params.get("v") !== URL_FORMAT_VERSION) return null;
+
+  const config: VisualConfig = { ...fallback, description: "Shared look" };
+  const rejected: string[] = [];
+  let accepted = 0;
+
+  const mode = params.get("m");
+  if (mode && MODE_IDS.includes(mode)) {
+    config.mode = mode;
+    accepted++;
+  } else if (mode !== null) rejected.push("mode");
+
+  const geometry = params.get("g");
+  if (geometry && (Object.values(GeometryType) as string[]).includes(geometry)) {
+    config.geometryType = geometry as GeometryType;
+    accepted++;
+  } else if (geometry !== null) rejected.push("geometryType");
+
+  const background = params.get("b");
+  if (background && (BUILT_IN_BACKGROUND_IDS as string[]).includes(background)) {
+    config.background = background as BackgroundStyle;
+    accepted++;
+  } else if (background !== null) rejected.push("background");
+
+  for (const [field, key] of Object.entries(COLOR_KEYS) as [ColorField, string][]) {
+    const value = params.get(key);
+    if (value === null) continue;
+    if (HEX_PATTERN.test(value)) {
+      config[field] = `#${value.toLowerCase()}`;
+      accepted++;
+    } else rejected.push(field);
+  }
+
+  for (const [field, key] of Object.entries(NUMERIC_KEYS) as [NumericField, string][]) {
+    const value = params.get(key);
+    if (value === null) continue;
+    const num = Number(value);
+    const { min, max } = CONFIG_RANGES[field];
+    if (value.trim() !== "" && Number.isFinite(num) && num >= min && num <= max) {
+      config[field] = num;
+      accepted++;
+    } else rejected.push(field);
+  }
+
+  const fx = params.get("fx");
+  const effects = fx === null ? null : decodeEffects(fx);
+  if (effects) {
+    config.effects = effects;
+    accepted++;
+  } else if (fx !== null) rejected.push("effects");
+
+  if (rejected.length) {
+    console.warn(`Ignored invalid shared config fields: ${rejected.join(", ")}`);
+  }
+  return accepted > 0 ? config : null;
+};
+
+export const readConfigFromLocation = (fallback: VisualConfig): VisualConfig | null =>
+  typeof window === "undefined" ? null : decodeConfig(window.location.hash, fallback);
+
+// Rewrites the hash without adding a history entry or firing hashchange.
+export const writeConfigToLocation = (config: VisualConfig) => {
+  const hash = `#${encodeConfig(config)}`;
+  if (window.location.hash !== hash) {
+    window.history.replaceState(null, "", hash);
+  }
+};
@@ -0,0 +1,163 @@
+import { VisualConfig, GeometryType, BackgroundStyle, EffectConfig } from "../types";
+import { MODE_IDS } from "../components/modes";
+import { EFFECT_TYPES } from "../components/effects";
+
+// Runtime checks for configs that come from outside the app (LLM responses,
+// imported files). Every field is validated on its own so one bad value never
+// throws away the rest of an otherwise good config.
+
+export type NumericField = "particleSize" | "rotationSpeed" | "sensitivity" | "bloomIntensity";
+export type ColorField = "primaryColor" | "secondaryColor" | "backgroundColor";
+
+export const CONFIG_RANGES: Record<NumericField, { min: number; max: number }> = {
+  particleSize: { min: 0.1, max: 2.0 },
+  rotationSpeed: { min: 0.0, max: 2.0 },
+  sensitivity: { min: 0.5, max: 3.0 },
+  bloomIntensity: { min: 0.0, max: 3.0 }
+};
+
+export const NUMERIC_FIELDS = Object.keys(CONFIG_RANGES) as NumericField[];
+export const COLOR_FIELDS: ColorField[] = ["primaryColor", "secondaryColor", "backgroundColor"];
+
+const MAX_DESCRIPTION_LENGTH = 200;
+// Backgrounds whose brightest channel is below this count as "pure black"
+const MIN_BACKGROUND_CHANNEL = 0x0c;
+
+export interface ValidationResult {
+  config: VisualConfig;
+  corrections: string[]; // Human readable list of everything that was changed
+}
+
+/**
+ * Normalizes #rgb, #rrggbb, #rrggbbaa (with or without the hash) to
+ * lowercase #rrggbb. Returns null for anything else.
+ */
+export const normalizeHexColor = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const hex = value.trim().replace(/^#/, "").toLowerCase();
+  if (/^[0-9a-f]{3}$/.test(hex)) {
+    return `#${hex.split("").map((c) => c + c).join("")}`;
+  }
+  if (/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) {
+    return `#${hex.slice(0, 6)}`;
+  }
+  return null;
+};
+
+const toChannels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+const fromChannels = (channels: number[]) =>
+  `#${channels.map((c) => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, "0")).join("")}`;
+
+// Lifts a near-black background to a dark tint of the accent color.
+const liftBackground = (background: string, accent: string) => {
+  const bg = toChannels(background);
+  if (Math.max(...bg) >= MIN_BACKGROUND_CHANNEL) return background;
+  const tint = toChannels(accent);
+  const lifted = bg.map((c, i) => c + tint[i] * 0.1);
+  if (Math.max(...lifted) < MIN_BACKGROUND_CHANNEL) {
+    return fromChannels(lifted.map((c) => c + MIN_BACKGROUND_CHANNEL));
+  }
+  return fromChannels(lifted);
+};
+
+const matchEnum = <T extends string>(value: unknown, options: T[]): T | null => {
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toUpperCase();
+  return options.find((option) => option === normalized) ?? null;
+};
+
+const clampUnit = (value: unknown, fallback: number) => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? Math.max(0, Math.min(1, number)) : fallback;
+};
+
+/**
+ * Keeps the entries of an effect list that name a known effect, each type
+ * once, with intensity and reactivity clamped to 0..1. Returns null when
+ * `value` is not a list at all.
+ */
+export const sanitizeEffects = (value: unknown, corrections: string[]): EffectConfig[] | null => {
+  if (!Array.isArray(value)) return null;
+  const effects: EffectConfig[] = [];
+  for (const entry of value) {
+    const item: Record<string, unknown> = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    const type = matchEnum(item.type, EFFECT_TYPES);
+    if (!type) {
+      corrections.push(`unknown effect "${String(item.type)}" dropped`);
+      continue;
+    }
+    if (effects.some((effect) => effect.type === type)) {
+      corrections.push(`duplicate effect ${type} dropped`);
+      continue;
+    }
+    effects.push({ type, intensity: clampUnit(item.intensity, 0.5), reactivity: clampUnit(item.reactivity, 0.5) });
+  }
+  return effects;
+};
+
+export const validateVisualConfig = (raw: unknown, fallback: VisualConfig): ValidationResult => {
+  const corrections: string[] = [];
+  const input: Record<string, unknown> = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (input !== raw) corrections.push("response was not an object, using defaults");
+
+  const mode = matchEnum(input.mode, MODE_IDS);
+  if (!mode) corrections.push(`unknown mode "${String(input.mode)}" replaced with ${fallback.mode}`);
+
+  const geometryType = matchEnum(input.geometryType, Object.values(GeometryType));
+  if (!geometryType) corrections.push(`unknown geometry "${String(input.geometryType)}" replaced with ${fallback.geometryType}`);
+
+  // Older presets and responses have no background; only a wrong one is worth a note
+  const backgroundStyle = matchEnum(input.background, Object.values(BackgroundStyle));
+  if (!backgroundStyle && input.background !== undefined) {
+    corrections.push(`unknown background "${String(input.background)}" replaced with ${fallback.background}`);
+  }
+
+  // Same for effects: no list keeps the fallback's chain
+  const effects = sanitizeEffects(input.effects, corrections);
+  if (!effects && input.effects !== undefined) corrections.push("effects was not a list, keeping the current effects");
+
+  const config: VisualConfig = {
+    ...fallback,
+    mode: mode ?? fallback.mode,
+    geometryType: geometryType ?? fallback.geometryType,
+    background: backgroundStyle ?? fallback.background,
+    effects: effects ?? fallback.effects
+  };
+
+  for (const field of COLOR_FIELDS) {
+    const color = normalizeHexColor(input[field]);
+    if (!color) {
+      corrections.push(`invalid ${field} "${String(input[field])}" replaced with ${fallback[field]}`);
+    } else {
+      if (color !== input[field]) corrections.push(`${field} normalized to ${color}`);
+      config[field] = color;
+    }
+  }
+
+  const background = liftBackground(config.backgroundColor, config.secondaryColor);
+  if (background !== config.backgroundColor) {
+    corrections.push(`backgroundColor ${config.backgroundColor} too close to black, lifted to ${background}`);
+    config.backgroundColor = background;
+  }
+
+  for (const field of NUMERIC_FIELDS) {
+    const value = typeof input[field] === "string" ? Number(input[field]) : input[field];
+    const { min, max } = CONFIG_RANGES[field];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      corrections.push(`invalid ${field} "${String(input[field])}" replaced with ${fallback[field]}`);
+      continue;
+    }
+    const clamped = Math.max(min, Math.min(max, value));
+    if (clamped !== value) corrections.push(`${field} ${value} clamped to ${clamped}`);
+    config[field] = clamped;
+  }
+
+  if (typeof input.description === "string" && input.description.trim()) {
+    config.description = input.description.trim().slice(0, MAX_DESCRIPTION_LENGTH);
+  } else {
+    corrections.push("missing description");
+    config.description = fallback.description;
+  }
+
+  return { config, corrections };
+};
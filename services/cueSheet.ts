@@ -0,0 +1,137 @@
+import { VisualConfig } from "../types";
+import { validateVisualConfig } from "./configValidation";
+
+// Timeline cues for scripted shows: each cue switches to a config (or just
+// some of its fields) at a timestamp in the uploaded track. Stored and
+// versioned the same way as presets.
+
+export const CUE_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = "ferro.cues";
+
+export interface Cue {
+  id: string;
+  time: number;       // Seconds into the track
+  config: Partial<VisualConfig>;
+  transition: number; // Crossfade length in seconds when the cue is reached
+}
+
+export interface CueFile {
+  schemaVersion: number;
+  cues: Cue[];
+}
+
+// A parsed file before its cues are validated
+type RawCueFile = { schemaVersion: number; cues: unknown[] };
+
+// Each entry upgrades a file from `version` to `version + 1`.
+const MIGRATIONS: Record<number, (file: RawCueFile) => RawCueFile> = {};
+
+const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const byTime = (a: Cue, b: Cue) => a.time - b.time;
+
+// Validates only the fields the cue actually sets so partial cues stay partial
+const normalizePartialConfig = (raw: Record<string, unknown>, fallback: VisualConfig): Partial<VisualConfig> => {
+  const { config } = validateVisualConfig({ ...fallback, ...raw }, fallback);
+  const partial: Partial<VisualConfig> = {};
+  for (const key of Object.keys(raw) as (keyof VisualConfig)[]) {
+    if (key in config) (partial as Record<string, unknown>)[key] = config[key];
+  }
+  return partial;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+const normalizeCue = (raw: unknown, fallback: VisualConfig): Cue | null => {
+  if (!isRecord(raw) || !isRecord(raw.config)) return null;
+  if (typeof raw.time !== "number" || !Number.isFinite(raw.time)) return null;
+  return {
+    id: typeof raw.id === "string" ? raw.id : createId(),
+    time: Math.max(0, raw.time),
+    config: normalizePartialConfig(raw.config, fallback),
+    transition: typeof raw.transition === "number" && raw.transition >= 0 ? raw.transition : 0
+  };
+};
+
+const isCueFile = (value: unknown): value is RawCueFile =>
+  isRecord(value) && typeof value.schemaVersion === "number" && Array.isArray(value.cues);
+
+/**
+ * Parses and upgrades a cue sheet. Throws when the file is not a cue sheet
+ * or was written by a newer version of the app.
+ */
+export const parseCueFile = (text: string, fallback: VisualConfig): Cue[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("Cue sheet is not valid JSON");
+  }
+  if (!isCueFile(file)) {
+    throw new Error("Not a Ferro cue sheet");
+  }
+  if (file.schemaVersion > CUE_SCHEMA_VERSION) {
+    throw new Error(`Cue sheet uses schema v${file.schemaVersion}, this app supports up to v${CUE_SCHEMA_VERSION}`);
+  }
+
+  let upgraded = file;
+  for (let v = file.schemaVersion; v < CUE_SCHEMA_VERSION; v++) {
+    if (MIGRATIONS[v]) upgraded = MIGRATIONS[v](upgraded);
+  }
+
+  return upgraded.cues
+    .map((c) => normalizeCue(c, fallback))
+    .filter((c): c is Cue => c !== null)
+    .sort(byTime);
+};
+
+export const serializeCues = (cues: Cue[]): string => {
+  const file: CueFile = { schemaVersion: CUE_SCHEMA_VERSION, cues };
+  return JSON.stringify(file, null, 2);
+};
+
+export const loadCues = (fallback: VisualConfig): Cue[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseCueFile(stored, fallback) : [];
+  } catch (error) {
+    console.error("Failed to load cues:", error);
+    return [];
+  }
+};
+
+export const saveCues = (cues: Cue[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeCues(cues));
+  } catch (error) {
+    console.error("Failed to save cues:", error);
+  }
+};
+
+export const createCue = (time: number, config: Partial<VisualConfig>, transition: number): Cue => ({
+  id: createId(),
+  time: Math.max(0, time),
+  config: { ...config },
+  transition
+});
+
+// Keeps the list sorted; a cue at the same time as an existing one replaces it
+export const insertCue = (cues: Cue[], cue: Cue): Cue[] =>
+  [...cues.filter((c) => Math.abs(c.time - cue.time) > 0.01), cue].sort(byTime);
+
+// Index of the last cue at or before `time`, -1 before the first cue
+export const cueIndexAt = (cues: Cue[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < cues.length && cues[i].time <= time; i++) index = i;
+  return index;
+};
+
+/**
+ * The config that playing from the start would have reached by cue `index`:
+ * every cue up to it layered over `base`. Lets a seek land on the right state
+ * no matter which cues were skipped.
+ */
+export const resolveCueConfig = (base: VisualConfig, cues: Cue[], index: number): VisualConfig =>
+  cues.slice(0, index + 1).reduce<VisualConfig>((config, cue) => ({ ...config, ...cue.config }), base);
@@ -0,0 +1,15 @@
+// Triggers a browser download for in-memory data.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (text: string, filename: string, type = "application/json") =>
+  downloadBlob(new Blob([text], { type }), filename);
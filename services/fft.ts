@@ -0,0 +1,36 @@
+// In-place iterative radix-2 FFT over separate real/imaginary arrays.
+// Length must be a power of two.
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+
+  // Bit reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const angle = step * k;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
@@ -0,0 +1,51 @@
+// Web MIDI plumbing: listens to every connected input, including devices
+// plugged in later, and hands raw messages to the mapping logic.
+
+import { MidiMessage, parseMidiMessage } from "./midiMapping";
+
+export interface MidiConnection {
+  close: () => void;
+}
+
+export const isMidiSupported = () =>
+  typeof navigator !== "undefined" && typeof navigator.requestMIDIAccess === "function";
+
+/**
+ * Asks for MIDI access and forwards decoded messages. `onDevicesChange`
+ * fires whenever an input appears or goes away.
+ */
+export const connectMidi = async (
+  onMessage: (message: MidiMessage) => void,
+  onDevicesChange: (names: string[]) => void
+): Promise<MidiConnection> => {
+  const access = await navigator.requestMIDIAccess();
+
+  const handleMessage = (e: MIDIMessageEvent) => {
+    const message = e.data ? parseMidiMessage(e.data) : null;
+    if (message) onMessage(message);
+  };
+
+  const inputNames = () =>
+    Array.from(access.inputs.values())
+      .filter((input) => input.state === "connected")
+      .map((input) => input.name ?? "Unknown device");
+
+  const attach = () => {
+    access.inputs.forEach((input) => {
+      input.onmidimessage = handleMessage;
+    });
+    onDevicesChange(inputNames());
+  };
+
+  access.onstatechange = attach;
+  attach();
+
+  const close = () => {
+    access.onstatechange = null;
+    access.inputs.forEach((input) => {
+      input.onmidimessage = null;
+    });
+  };
+
+  return { close };
+};
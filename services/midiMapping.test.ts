@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+import { BackgroundStyle, GeometryType, VisualConfig, VisualizerMode } from "../types";
+import {
+  MidiBinding,
+  applyMidiField,
+  createMidiMapper,
+  learnBinding,
+  loadMidiBindings,
+  parseMidiMessage
+} from "./midiMapping";
+
+const config: VisualConfig = {
+  mode: VisualizerMode.Ferrofluid,
+  geometryType: GeometryType.Sphere,
+  background: BackgroundStyle.Aurora,
+  primaryColor: "#ff0000",
+  secondaryColor: "#00ff00",
+  backgroundColor: "#2a1b3d",
+  particleSize: 0.6,
+  rotationSpeed: 0.5,
+  sensitivity: 1.2,
+  bloomIntensity: 1.2,
+  effects: [],
+  description: ""
+};
+
+const message = (...bytes: number[]) => parseMidiMessage(bytes)!;
+
+describe("parseMidiMessage", () => {
+  it("decodes control changes and notes", () => {
+    expect(parseMidiMessage([0xb0, 7, 127])).toEqual({ type: "cc", channel: 0, number: 7, value: 127 });
+    expect(parseMidiMessage([0x99, 36, 100])).toEqual({ type: "noteOn", channel: 9, number: 36, value: 100 });
+    expect(parseMidiMessage([0x83, 36, 64])).toEqual({ type: "noteOff", channel: 3, number: 36, value: 64 });
+  });
+
+  it("treats note on with velocity 0 as note off", () => {
+    expect(parseMidiMessage([0x90, 36, 0])).toEqual({ type: "noteOff", channel: 0, number: 36, value: 0 });
+  });
+
+  it("ignores other and short messages", () => {
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull(); // Pitch bend
+    expect(parseMidiMessage([0xf8])).toBeNull();        // Clock
+    expect(parseMidiMessage([0xb0, 7])).toBeNull();
+  });
+});
+
+describe("learnBinding", () => {
+  it("binds the control that sent the message", () => {
+    const bindings = learnBinding([], message(0xb0, 7, 127), { kind: "field", field: "bloomIntensity" });
+    expect(bindings).toEqual([{ control: { type: "cc", channel: 0, number: 7 }, target: { kind: "field", field: "bloomIntensity" } }]);
+  });
+
+  it("moves a control or target instead of binding it twice", () => {
+    let bindings = learnBinding([], message(0xb0, 7, 0), { kind: "field", field: "bloomIntensity" });
+    bindings = learnBinding(bindings, message(0xb0, 7, 0), { kind: "field", field: "sensitivity" });
+    expect(bindings).toHaveLength(1);
+    expect(bindings[0].target).toEqual({ kind: "field", field: "sensitivity" });
+
+    bindings = learnBinding(bindings, message(0xb0, 8, 0), { kind: "field", field: "sensitivity" });
+    expect(bindings).toHaveLength(1);
+    expect(bindings[0].control.number).toBe(8);
+  });
+
+  it("does not learn from note off", () => {
+    expect(learnBinding([], message(0x90, 36, 0), { kind: "action", action: "nextMode" })).toEqual([]);
+  });
+});
+
+describe("createMidiMapper", () => {
+  const bindings: MidiBinding[] = [
+    { control: { type: "cc", channel: 0, number: 7 }, target: { kind: "field", field: "bloomIntensity" } },
+    { control: { type: "cc", channel: 0, number: 20 }, target: { kind: "action", action: "nextGeometry" } },
+    { control: { type: "note", channel: 0, number: 36 }, target: { kind: "preset", presetId: "p1" } }
+  ];
+
+  it("scales CC values for fields", () => {
+    const mapper = createMidiMapper();
+    expect(mapper.handle(bindings, message(0xb0, 7, 127))).toEqual([{ kind: "field", field: "bloomIntensity", value: 1 }]);
+    expect(mapper.handle(bindings, message(0xb1, 7, 127))).toEqual([]); // Other channel
+  });
+
+  it("fires actions once when a CC button crosses the halfway point", () => {
+    const mapper = createMidiMapper();
+    const press = () => mapper.handle(bindings, message(0xb0, 20, 127));
+    expect(press()).toEqual([{ kind: "action", action: "nextGeometry" }]);
+    expect(press()).toEqual([]); // Still held
+    mapper.handle(bindings, message(0xb0, 20, 0));
+    expect(press()).toHaveLength(1);
+  });
+
+  it("fires presets on note on but not on note off", () => {
+    const mapper = createMidiMapper();
+    expect(mapper.handle(bindings, message(0x90, 36, 100))).toEqual([{ kind: "preset", presetId: "p1" }]);
+    expect(mapper.handle(bindings, message(0x90, 36, 0))).toEqual([]);
+  });
+});
+
+describe("applyMidiField", () => {
+  it("spans the field's valid range", () => {
+    expect(applyMidiField(config, "bloomIntensity", 127 / 127).bloomIntensity).toBe(3);
+    expect(applyMidiField(config, "sensitivity", 0).sensitivity).toBe(0.5);
+    expect(applyMidiField(config, "particleSize", 2).particleSize).toBe(2);
+  });
+
+  it("turns both accent colors together for hue", () => {
+    const next = applyMidiField(config, "hue", 0.5);
+    expect(next.primaryColor).toBe("#00ffff");
+    expect(next.secondaryColor).toBe("#ff00ff");
+  });
+});
+
+describe("loadMidiBindings", () => {
+  it("keeps only well formed bindings", () => {
+    const stored = {
+      schemaVersion: 1,
+      bindings: [
+        { control: { type: "cc", channel: 0, number: 7 }, target: { kind: "field", field: "bloomIntensity" } },
+        { control: { type: "cc", channel: 0, number: 8 }, target: { kind: "field", field: "volume" } },
+        { control: { type: "pitch", channel: 0, number: 9 }, target: { kind: "action", action: "nextMode" } },
+        null
+      ]
+    };
+    vi.stubGlobal("localStorage", { getItem: () => JSON.stringify(stored) });
+    expect(loadMidiBindings()).toEqual([stored.bindings[0]]);
+    vi.unstubAllGlobals();
+  });
+});
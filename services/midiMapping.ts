@@ -0,0 +1,198 @@
+import { VisualConfig } from "../types";
+import { CONFIG_RANGES, NUMERIC_FIELDS, NumericField } from "./configValidation";
+import { hexToHsl, hslToHex } from "./color";
+
+// Bindings from MIDI controls to config fields and actions. Everything here
+// works on raw message bytes, so a mapping can be exercised with synthetic
+// messages like [0xB0, 7, 127] without any MIDI hardware.
+
+export const MIDI_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = "ferro.midi";
+
+export interface MidiMessage {
+  type: "cc" | "noteOn" | "noteOff";
+  channel: number; // 0..15
+  number: number;  // Controller or note number
+  value: number;   // Controller value or velocity, 0..127
+}
+
+// A physical control: knobs and faders send CCs, pads and keys send notes
+export interface MidiControl {
+  type: "cc" | "note";
+  channel: number;
+  number: number;
+}
+
+// "hue" rotates both accent colors together
+export type MidiField = NumericField | "hue";
+export type MidiAction = "nextMode" | "previousMode" | "nextGeometry" | "previousGeometry";
+
+export type MidiTarget =
+  | { kind: "field"; field: MidiField }
+  | { kind: "action"; action: MidiAction }
+  | { kind: "preset"; presetId: string };
+
+export interface MidiBinding {
+  control: MidiControl;
+  target: MidiTarget;
+}
+
+export interface MidiMappingFile {
+  schemaVersion: number;
+  bindings: MidiBinding[];
+}
+
+// What a message asks the app to do
+export type MidiEffect =
+  | { kind: "field"; field: MidiField; value: number } // value 0..1
+  | { kind: "action"; action: MidiAction }
+  | { kind: "preset"; presetId: string };
+
+export const MIDI_FIELDS: MidiField[] = [...NUMERIC_FIELDS, "hue"];
+export const MIDI_ACTIONS: MidiAction[] = ["nextMode", "previousMode", "nextGeometry", "previousGeometry"];
+
+/**
+ * Decodes a channel voice message. Anything other than control change and
+ * note on/off (clock, sysex, pitch bend...) yields null.
+ */
+export const parseMidiMessage = (data: ArrayLike<number>): MidiMessage | null => {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const number = data[1] & 0x7f;
+  const value = data[2] & 0x7f;
+  if (status === 0xb0) return { type: "cc", channel, number, value };
+  // Note on with velocity 0 is how many devices send note off
+  if (status === 0x90) return { type: value > 0 ? "noteOn" : "noteOff", channel, number, value };
+  if (status === 0x80) return { type: "noteOff", channel, number, value };
+  return null;
+};
+
+export const controlOf = (message: MidiMessage): MidiControl => ({
+  type: message.type === "cc" ? "cc" : "note",
+  channel: message.channel,
+  number: message.number
+});
+
+export const sameControl = (a: MidiControl, b: MidiControl) =>
+  a.type === b.type && a.channel === b.channel && a.number === b.number;
+
+// Stable string for a target, used to compare targets and as a React key
+export const targetKey = (target: MidiTarget) =>
+  target.kind === "field" ? `field:${target.field}` : target.kind === "action" ? `action:${target.action}` : `preset:${target.presetId}`;
+
+export const describeControl = (control: MidiControl) =>
+  `${control.type === "cc" ? "CC" : "Note"} ${control.number} · ch${control.channel + 1}`;
+
+/**
+ * Binds the control that sent `message` to `target`. A control drives one
+ * target and a target listens to one control, so older bindings of either
+ * are dropped. Returns the bindings unchanged for messages that cannot be
+ * learned (note off).
+ */
+export const learnBinding = (bindings: MidiBinding[], message: MidiMessage, target: MidiTarget): MidiBinding[] => {
+  if (message.type === "noteOff") return bindings;
+  const control = controlOf(message);
+  const key = targetKey(target);
+  return [
+    ...bindings.filter((b) => !sameControl(b.control, control) && targetKey(b.target) !== key),
+    { control, target }
+  ];
+};
+
+export const removeBinding = (bindings: MidiBinding[], target: MidiTarget): MidiBinding[] =>
+  bindings.filter((b) => targetKey(b.target) !== targetKey(target));
+
+export const bindingFor = (bindings: MidiBinding[], target: MidiTarget): MidiBinding | null =>
+  bindings.find((b) => targetKey(b.target) === targetKey(target)) ?? null;
+
+export interface MidiMapper {
+  handle: (bindings: MidiBinding[], message: MidiMessage) => MidiEffect[];
+  reset: () => void;
+}
+
+/**
+ * Turns messages into effects. Fields follow CC values and note velocities;
+ * actions fire on note on, or when a CC button crosses the halfway point
+ * upwards, so a held button does not repeat.
+ */
+export const createMidiMapper = (): MidiMapper => {
+  const lastValues = new Map<string, number>();
+
+  const handle = (bindings: MidiBinding[], message: MidiMessage): MidiEffect[] => {
+    const control = controlOf(message);
+    const controlKey = `${control.type}:${control.channel}:${control.number}`;
+    const previous = lastValues.get(controlKey) ?? 0;
+    if (message.type === "cc") lastValues.set(controlKey, message.value);
+
+    const pressed = message.type === "noteOn" || (message.type === "cc" && message.value >= 64 && previous < 64);
+    const effects: MidiEffect[] = [];
+    for (const { control: bound, target } of bindings) {
+      if (!sameControl(bound, control)) continue;
+      if (target.kind === "field") {
+        if (message.type !== "noteOff") effects.push({ kind: "field", field: target.field, value: message.value / 127 });
+      } else if (pressed) {
+        effects.push(target.kind === "action" ? { kind: "action", action: target.action } : { kind: "preset", presetId: target.presetId });
+      }
+    }
+    return effects;
+  };
+
+  return { handle, reset: () => lastValues.clear() };
+};
+
+/**
+ * Sets a field from a 0..1 control value. Numeric fields span their valid
+ * range; hue turns the primary color to `value` and keeps the secondary
+ * color at the same distance around the color wheel.
+ */
+export const applyMidiField = (config: VisualConfig, field: MidiField, value: number): VisualConfig => {
+  const t = Math.max(0, Math.min(1, value));
+  if (field === "hue") {
+    const [primaryHue, s1, l1] = hexToHsl(config.primaryColor);
+    const [secondaryHue, s2, l2] = hexToHsl(config.secondaryColor);
+    const offset = secondaryHue - primaryHue;
+    return {
+      ...config,
+      primaryColor: hslToHex(t, s1, l1),
+      secondaryColor: hslToHex((t + offset + 1) % 1, s2, l2)
+    };
+  }
+  const { min, max } = CONFIG_RANGES[field];
+  return { ...config, [field]: Math.round((min + (max - min) * t) * 100) / 100 };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+const isControl = (raw: unknown): raw is MidiControl =>
+  isRecord(raw) && (raw.type === "cc" || raw.type === "note") && Number.isInteger(raw.channel) && Number.isInteger(raw.number);
+
+const isTarget = (raw: unknown): raw is MidiTarget =>
+  isRecord(raw) &&
+  ((raw.kind === "field" && (MIDI_FIELDS as unknown[]).includes(raw.field)) ||
+    (raw.kind === "action" && (MIDI_ACTIONS as unknown[]).includes(raw.action)) ||
+    (raw.kind === "preset" && typeof raw.presetId === "string"));
+
+const isBinding = (raw: unknown): raw is MidiBinding => isRecord(raw) && isControl(raw.control) && isTarget(raw.target);
+
+export const loadMidiBindings = (): MidiBinding[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!isRecord(stored) || !Array.isArray(stored.bindings)) return [];
+    if (typeof stored.schemaVersion !== "number" || stored.schemaVersion > MIDI_SCHEMA_VERSION) return [];
+    return stored.bindings.filter(isBinding);
+  } catch (error) {
+    console.error("Failed to load MIDI mappings:", error);
+    return [];
+  }
+};
+
+export const saveMidiBindings = (bindings: MidiBinding[]) => {
+  try {
+    const file: MidiMappingFile = { schemaVersion: MIDI_SCHEMA_VERSION, bindings };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+  } catch (error) {
+    console.error("Failed to save MIDI mappings:", error);
+  }
+};
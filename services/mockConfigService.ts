@@ -0,0 +1,71 @@
+import { VisualConfig, GeometryType } from "../types";
+import { MODE_IDS } from "../components/modes";
+import { CONFIG_RANGES, NUMERIC_FIELDS } from "./configValidation";
+import { ConfigProvider } from "./configGenerator";
+import { createRandom } from "./random";
+import { hslToHex } from "./color";
+import { BUILT_IN_BACKGROUND_IDS } from "./backgroundShaders";
+import { EFFECT_TYPES } from "../components/effects";
+
+// Deterministic stand-in for a language model, for demos and tests without a
+// network. The same prompt (and current config when refining) always yields
+// the same config.
+
+// FNV-1a, enough to spread similar prompts apart
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(options: T[], random: () => number) => options[Math.floor(random() * options.length)];
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+// Up to `count` distinct effects with rounded settings
+const pickEffects = (count: number, random: () => number) => {
+  const types = [...EFFECT_TYPES];
+  return Array.from({ length: Math.min(count, types.length) }, () => ({
+    type: types.splice(Math.floor(random() * types.length), 1)[0],
+    intensity: roundTo(0.2 + random() * 0.6, 0.1),
+    reactivity: roundTo(random(), 0.1)
+  }));
+};
+
+export const createMockProvider = (): ConfigProvider => ({
+  complete: async ({ instruction, current }) => {
+    const random = createRandom(hashString(`${instruction}|${current ? JSON.stringify(current) : ""}`));
+    const hue = random();
+    const numeric = (field: (typeof NUMERIC_FIELDS)[number]) => {
+      const { min, max } = CONFIG_RANGES[field];
+      return roundTo(min + random() * (max - min), 0.1);
+    };
+
+    const generated: VisualConfig = {
+      mode: pick(MODE_IDS, random),
+      geometryType: pick(Object.values(GeometryType), random),
+      primaryColor: hslToHex(hue, 0.9, 0.55),
+      secondaryColor: hslToHex((hue + 0.3 + random() * 0.4) % 1, 0.85, 0.5),
+      backgroundColor: hslToHex(hue, 0.5, 0.08),
+      particleSize: numeric("particleSize"),
+      rotationSpeed: numeric("rotationSpeed"),
+      sensitivity: numeric("sensitivity"),
+      bloomIntensity: numeric("bloomIntensity"),
+      // Every field draws from the seeded stream in this order; reordering
+      // them changes the config a given prompt yields
+      background: pick(BUILT_IN_BACKGROUND_IDS, random),
+      effects: pickEffects(Math.floor(random() * 3), random),
+      description: `Mock look for "${instruction}"`
+    };
+
+    // Refining keeps the current look and changes a single field
+    if (current) {
+      const field = pick(["mode", "geometryType", "background", "effects", "primaryColor", ...NUMERIC_FIELDS] as (keyof VisualConfig)[], random);
+      return JSON.stringify({ ...current, [field]: generated[field], description: `${current.description} (mock: ${instruction})` });
+    }
+    return JSON.stringify(generated);
+  }
+});
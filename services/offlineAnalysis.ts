@@ -0,0 +1,96 @@
+// Runs the same analysis chain as the live analyser over decoded PCM at a
+// fixed frame rate. The spectrum step mirrors AnalyserNode
+// (Blackman window, temporal smoothing, dB to byte mapping), so offline
+// renders react like the live view.
+
+import { AudioData } from '../types';
+import { ANALYSER_FFT_SIZE, ANALYSER_SMOOTHING, createAudioAnalyzer } from './audioAnalyzer';
+import { fft } from './fft';
+
+// AnalyserNode defaults
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+// Fixed decode rate so results do not depend on the audio hardware
+const DECODE_SAMPLE_RATE = 44100;
+
+export const decodeAudioFile = async (file: File): Promise<AudioBuffer> => {
+  const data = await file.arrayBuffer();
+  const ctx = new OfflineAudioContext(2, 1, DECODE_SAMPLE_RATE);
+  return ctx.decodeAudioData(data);
+};
+
+export const getFrameCount = (buffer: AudioBuffer, fps: number) => Math.ceil(buffer.duration * fps);
+
+const mixToMono = (buffer: AudioBuffer) => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+const blackmanWindow = (size: number) => {
+  const window = new Float32Array(size);
+  const alpha = 0.16;
+  for (let i = 0; i < size; i++) {
+    const x = (2 * Math.PI * i) / size;
+    window[i] = (1 - alpha) / 2 - 0.5 * Math.cos(x) + (alpha / 2) * Math.cos(2 * x);
+  }
+  return window;
+};
+
+// Windowed FFT plus AnalyserNode smoothing for one stream of samples. Each
+// call reads the fftSize samples that end at `end`.
+const createSpectrumStep = (samples: Float32Array, fftSize: number, window: Float32Array) => {
+  const binCount = fftSize / 2;
+  const smoothed = new Float32Array(binCount);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+
+  return (end: number) => {
+    const timeDomainData = new Uint8Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      const index = end - fftSize + i;
+      const sample = index >= 0 && index < samples.length ? samples[index] : 0;
+      // Same byte mapping as getByteTimeDomainData
+      timeDomainData[i] = Math.max(0, Math.min(255, Math.floor(128 * (1 + sample))));
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const frequencyData = new Uint8Array(binCount);
+    for (let k = 0; k < binCount; k++) {
+      const magnitude = Math.sqrt(re[k] * re[k] + im[k] * im[k]) / fftSize;
+      smoothed[k] = ANALYSER_SMOOTHING * smoothed[k] + (1 - ANALYSER_SMOOTHING) * magnitude;
+      const db = smoothed[k] > 0 ? 20 * Math.log10(smoothed[k]) : -Infinity;
+      const scaled = (255 * (db - MIN_DECIBELS)) / (MAX_DECIBELS - MIN_DECIBELS);
+      frequencyData[k] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+    return { frequencyData, timeDomainData };
+  };
+};
+
+/**
+ * Yields one AudioData per video frame. Each frame analyses the fftSize
+ * samples that end at the frame's timestamp, for the mix and for each side.
+ */
+export function* analyzeOffline(buffer: AudioBuffer, fps: number): Generator<AudioData> {
+  const fftSize = ANALYSER_FFT_SIZE;
+  const window = blackmanWindow(fftSize);
+  const mixStep = createSpectrumStep(mixToMono(buffer), fftSize, window);
+  // Mono files feed the same samples to both sides, like the live splitter
+  const leftStep = createSpectrumStep(buffer.getChannelData(0), fftSize, window);
+  const rightStep = createSpectrumStep(buffer.getChannelData(Math.min(1, buffer.numberOfChannels - 1)), fftSize, window);
+  const analyzer = createAudioAnalyzer({ sampleRate: buffer.sampleRate, fftSize });
+
+  const frameCount = getFrameCount(buffer, fps);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const timeMs = (frame * 1000) / fps;
+    const end = Math.floor((frame / fps) * buffer.sampleRate);
+    const mix = mixStep(end);
+    yield analyzer.analyze(mix.frequencyData, timeMs, mix.timeDomainData, { left: leftStep(end), right: rightStep(end) });
+  }
+}
@@ -0,0 +1,86 @@
+// Steps the visualizer frame by frame over a decoded track and writes each
+// frame as a numbered PNG. Nothing depends on wall clock time or
+// Math.random, so the same file, settings and seed give identical frames.
+
+import { AudioData } from '../types';
+import { analyzeOffline, decodeAudioFile, getFrameCount } from './offlineAnalysis';
+import { createZipWriter } from './zip';
+import { downloadBlob } from './download';
+
+// File System Access API; Chromium only, so not in the DOM typings yet
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { mode?: "read" | "readwrite" }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export interface FrameSink {
+  write: (name: string, frame: Blob) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export interface OfflineRenderOptions {
+  file: File;
+  fps: number;
+  renderFrame: (audio: AudioData, delta: number) => Promise<Blob>;
+  sink: FrameSink;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export const OFFLINE_DEFAULT_SEED = 1;
+
+export const isDirectoryExportSupported = () => typeof window.showDirectoryPicker === "function";
+
+// frame_00001.png ... wide enough for the whole track so names sort correctly
+export const frameFileName = (index: number, total: number) =>
+  `frame_${String(index + 1).padStart(Math.max(5, String(total).length), "0")}.png`;
+
+// Writes straight into a user picked folder; nothing is held in memory
+export const createDirectorySink = async (): Promise<FrameSink> => {
+  if (!window.showDirectoryPicker) throw new Error("Saving to a folder is not supported in this browser");
+  const directory = await window.showDirectoryPicker({ mode: "readwrite" });
+  return {
+    write: async (name, frame) => {
+      const handle = await directory.getFileHandle(name, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(frame);
+      await writable.close();
+    },
+    close: async () => {}
+  };
+};
+
+// Fallback: appends each frame to a zip as it arrives and downloads the
+// archive at the end. Frames stay browser-managed Blobs, not script memory.
+export const createZipSink = (filename: string): FrameSink => {
+  const zip = createZipWriter();
+  return {
+    write: (name, frame) => zip.add(name, frame),
+    close: async () => {
+      downloadBlob(zip.finish(), filename);
+    }
+  };
+};
+
+/**
+ * Renders every frame of the track. The scene must already be in offline
+ * mode; the caller owns entering and leaving it.
+ */
+export const renderOffline = async ({ file, fps, renderFrame, sink, onProgress, signal }: OfflineRenderOptions) => {
+  const buffer = await decodeAudioFile(file);
+  const total = getFrameCount(buffer, fps);
+  let index = 0;
+
+  for (const audio of analyzeOffline(buffer, fps)) {
+    if (signal?.aborted) throw new DOMException("Export cancelled", "AbortError");
+    // The first frame starts from rest, like the live loop
+    const frame = await renderFrame(audio, index === 0 ? 0 : 1 / fps);
+    await sink.write(frameFileName(index, total), frame);
+    index++;
+    onProgress?.(index, total);
+  }
+
+  await sink.close();
+  return total;
+};
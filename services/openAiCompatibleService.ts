@@ -0,0 +1,33 @@
+import { ConfigProvider } from "./configGenerator";
+
+// Any server that speaks the OpenAI chat completions API: OpenAI itself or a
+// local model behind Ollama, LM Studio, llama.cpp and the like.
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string): ConfigProvider => ({
+  complete: async ({ text, schema, model }) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: "system", content: "You design music visualizer configurations and answer with JSON only." },
+          { role: "user", content: text }
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "visual_config", schema, strict: true }
+        }
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Server answered ${response.status} ${response.statusText}`);
+    }
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== "string" || !content) throw new Error("Response has no message content");
+    return content;
+  }
+});
@@ -0,0 +1,124 @@
+import { AudioData, VisualConfig } from "../types";
+
+// Keeps a pop-out projector window in step with the control window over a
+// BroadcastChannel. The control window owns audio and UI; the output window
+// only renders. Audio goes across as one compact frame per analysis step.
+
+const CHANNEL_NAME = "ferro.output";
+const OUTPUT_PARAM = "output";
+
+// Spectra of the single channels only drive broad spatial effects, so they
+// travel at reduced resolution; the mix and waveform keep more detail.
+const CHANNEL_DECIMATION = 4;
+const WAVEFORM_DECIMATION = 2;
+
+export interface AudioFrame {
+  frequencyData: Uint8Array;
+  timeDomainData: Uint8Array;
+  leftFrequencyData: Uint8Array;
+  rightFrequencyData: Uint8Array;
+  // overallAmplitude, bass, mid, treble, beatPhase, bpm, balance,
+  // correlation, width, then bass/mid/treble of the left and right channel
+  levels: Float32Array;
+  bands: Float32Array; // Mix bands, band peaks, left bands, right bands
+  flags: number;       // Bit 0 onset, bit 1 beat
+}
+
+export interface OutputState {
+  config: VisualConfig;
+  transitionDuration: number;
+  particleCount: number;
+  customShader: string;
+}
+
+export type OutputMessage =
+  | { type: "state"; state: OutputState }
+  | { type: "audio"; frame: AudioFrame }
+  | { type: "ping" }   // Control window asks whether an output is listening
+  | { type: "hello" }  // Output window is up and wants the current state
+  | { type: "close" } // Control window asks the output to close itself
+  | { type: "bye" };   // Output window is closing
+
+export interface OutputChannel {
+  post: (message: OutputMessage) => void;
+  close: () => void;
+}
+
+export const isOutputSupported = () => typeof BroadcastChannel !== "undefined";
+
+export const isOutputWindow = () => new URLSearchParams(window.location.search).has(OUTPUT_PARAM);
+
+export const openOutputWindow = (): Window | null =>
+  window.open(`${window.location.pathname}?${OUTPUT_PARAM}`, "ferro-output", "popup,width=1280,height=720");
+
+export const createOutputChannel = (onMessage: (message: OutputMessage) => void): OutputChannel => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<OutputMessage>) => onMessage(e.data);
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  };
+};
+
+// Keeps every `factor`-th sample; for spectra the loudest bin of each group
+const decimate = (data: Uint8Array, factor: number, peak: boolean) => {
+  const out = new Uint8Array(Math.ceil(data.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    if (!peak) {
+      out[i] = data[i * factor];
+      continue;
+    }
+    let value = 0;
+    for (let j = i * factor; j < Math.min(data.length, (i + 1) * factor); j++) value = Math.max(value, data[j]);
+    out[i] = value;
+  }
+  return out;
+};
+
+export const packAudioFrame = (audio: AudioData): AudioFrame => {
+  const bandCount = audio.bands.length;
+  const bands = new Float32Array(bandCount * 4);
+  bands.set(audio.bands, 0);
+  bands.set(audio.bandPeaks, bandCount);
+  bands.set(audio.left.bands, bandCount * 2);
+  bands.set(audio.right.bands, bandCount * 3);
+  return {
+    frequencyData: audio.frequencyData,
+    timeDomainData: decimate(audio.timeDomainData, WAVEFORM_DECIMATION, false),
+    leftFrequencyData: decimate(audio.left.frequencyData, CHANNEL_DECIMATION, true),
+    rightFrequencyData: decimate(audio.right.frequencyData, CHANNEL_DECIMATION, true),
+    levels: Float32Array.of(
+      audio.overallAmplitude, audio.bass, audio.mid, audio.treble, audio.beatPhase, audio.bpm,
+      audio.balance, audio.correlation, audio.width,
+      audio.left.bass, audio.left.mid, audio.left.treble,
+      audio.right.bass, audio.right.mid, audio.right.treble
+    ),
+    bands,
+    flags: (audio.onset ? 1 : 0) | (audio.beat ? 2 : 0)
+  };
+};
+
+export const unpackAudioFrame = (frame: AudioFrame): AudioData => {
+  const [overallAmplitude, bass, mid, treble, beatPhase, bpm, balance, correlation, width, lb, lm, lt, rb, rm, rt] = frame.levels;
+  const bandCount = frame.bands.length / 4;
+  const bandsAt = (slot: number) => frame.bands.slice(bandCount * slot, bandCount * (slot + 1));
+  return {
+    frequencyData: frame.frequencyData,
+    timeDomainData: frame.timeDomainData,
+    overallAmplitude,
+    bass,
+    mid,
+    treble,
+    bands: bandsAt(0),
+    bandPeaks: bandsAt(1),
+    onset: (frame.flags & 1) !== 0,
+    beat: (frame.flags & 2) !== 0,
+    beatPhase,
+    bpm,
+    left: { frequencyData: frame.leftFrequencyData, bass: lb, mid: lm, treble: lt, bands: bandsAt(2) },
+    right: { frequencyData: frame.rightFrequencyData, bass: rb, mid: rm, treble: rt, bands: bandsAt(3) },
+    balance,
+    correlation,
+    width
+  };
+};
@@ -0,0 +1,112 @@
+// Playlist of uploaded tracks. Pure state: the player reads `current` and asks
+// for the next or previous track; shuffle keeps its own play order so every
+// track plays once per round and "previous" retraces that order.
+
+export type RepeatMode = "off" | "all" | "one";
+
+export interface PlaylistTrack {
+  id: string;
+  file: File;
+  name: string;
+  presetId: string | null; // Preset applied when the track starts
+}
+
+export interface Playlist {
+  tracks: PlaylistTrack[];
+  current: string | null; // Id of the loaded track
+  shuffle: boolean;
+  shuffleOrder: string[]; // Track ids in shuffled play order
+  repeat: RepeatMode;
+}
+
+const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const EMPTY_PLAYLIST: Playlist = { tracks: [], current: null, shuffle: false, shuffleOrder: [], repeat: "off" };
+
+const shuffled = <T>(items: T[]) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Shuffled order that starts with the current track
+const buildShuffleOrder = (tracks: PlaylistTrack[], current: string | null) => {
+  const rest = shuffled(tracks.map((track) => track.id).filter((id) => id !== current));
+  return current ? [current, ...rest] : rest;
+};
+
+export const isAudioFile = (file: File) =>
+  file.type.startsWith("audio/") || /\.(mp3|wav|ogg|oga|flac|m4a|aac|opus|webm)$/i.test(file.name);
+
+export const addTracks = (playlist: Playlist, files: File[]): Playlist => {
+  const added = files.filter(isAudioFile).map((file) => ({ id: createId(), file, name: file.name, presetId: null }));
+  return {
+    ...playlist,
+    tracks: [...playlist.tracks, ...added],
+    // New tracks join the end of the current shuffle round
+    shuffleOrder: [...playlist.shuffleOrder, ...shuffled(added.map((track) => track.id))]
+  };
+};
+
+export const removeTrack = (playlist: Playlist, id: string): Playlist => ({
+  ...playlist,
+  tracks: playlist.tracks.filter((track) => track.id !== id),
+  shuffleOrder: playlist.shuffleOrder.filter((trackId) => trackId !== id),
+  current: playlist.current === id ? null : playlist.current
+});
+
+export const moveTrack = (playlist: Playlist, from: number, to: number): Playlist => {
+  if (to < 0 || to >= playlist.tracks.length || from === to) return playlist;
+  const tracks = [...playlist.tracks];
+  const [track] = tracks.splice(from, 1);
+  tracks.splice(to, 0, track);
+  return { ...playlist, tracks };
+};
+
+export const setTrackPreset = (playlist: Playlist, id: string, presetId: string | null): Playlist => ({
+  ...playlist,
+  tracks: playlist.tracks.map((track) => (track.id === id ? { ...track, presetId } : track))
+});
+
+export const setShuffle = (playlist: Playlist, shuffle: boolean): Playlist => ({
+  ...playlist,
+  shuffle,
+  shuffleOrder: buildShuffleOrder(playlist.tracks, playlist.current)
+});
+
+export const cycleRepeat = (playlist: Playlist): Playlist => ({
+  ...playlist,
+  repeat: playlist.repeat === "off" ? "all" : playlist.repeat === "all" ? "one" : "off"
+});
+
+export const selectTrack = (playlist: Playlist, id: string): Playlist => ({ ...playlist, current: id });
+
+export const currentTrack = (playlist: Playlist): PlaylistTrack | null =>
+  playlist.tracks.find((track) => track.id === playlist.current) ?? null;
+
+/**
+ * Track that follows the current one in `direction`, or null at the end of
+ * the list. `auto` is set when the current track ended by itself: only then
+ * does "repeat one" replay it, skipping by hand always moves on.
+ */
+export const adjacentTrack = (playlist: Playlist, direction: 1 | -1, auto = false): PlaylistTrack | null => {
+  const { tracks, current, repeat } = playlist;
+  if (tracks.length === 0) return null;
+  if (auto && repeat === "one" && current) return currentTrack(playlist);
+
+  const order = playlist.shuffle ? playlist.shuffleOrder : tracks.map((track) => track.id);
+  const position = current ? order.indexOf(current) : -1;
+  // Nothing loaded yet (or the loaded track was removed): start at the top
+  if (position === -1) return tracks.find((track) => track.id === order[0]) ?? null;
+
+  let next = position + direction;
+  if (next < 0 || next >= order.length) {
+    if (repeat === "off") return null;
+    next = (next + order.length) % order.length;
+  }
+  return tracks.find((track) => track.id === order[next]) ?? null;
+};
@@ -0,0 +1,112 @@
+import { VisualConfig } from "../types";
+import { validateVisualConfig } from "./configValidation";
+
+// Bump when the stored shape of a preset changes and add a migration below.
+export const PRESET_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = "ferro.presets";
+
+export interface VisualPreset {
+  id: string;
+  name: string;
+  prompt: string; // Prompt that produced the config, empty for manual looks
+  config: VisualConfig;
+  createdAt: number;
+}
+
+export interface PresetFile {
+  schemaVersion: number;
+  presets: VisualPreset[];
+}
+
+// A parsed file before its presets are validated
+type RawPresetFile = { schemaVersion: number; presets: unknown[] };
+
+// Each entry upgrades a file from `version` to `version + 1`.
+const MIGRATIONS: Record<number, (file: RawPresetFile) => RawPresetFile> = {};
+
+const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+const isPresetFile = (value: unknown): value is RawPresetFile =>
+  isRecord(value) && typeof value.schemaVersion === "number" && Array.isArray(value.presets);
+
+// Fills fields that older presets did not have from the fallback config and
+// repairs anything out of range.
+const normalizePreset = (raw: unknown, fallback: VisualConfig): VisualPreset | null => {
+  if (!isRecord(raw) || !isRecord(raw.config)) return null;
+  return {
+    id: typeof raw.id === "string" ? raw.id : createId(),
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name : "Untitled",
+    prompt: typeof raw.prompt === "string" ? raw.prompt : "",
+    config: validateVisualConfig({ ...fallback, ...raw.config }, fallback).config,
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now()
+  };
+};
+
+/**
+ * Parses and upgrades a preset file. Throws when the file is not a preset
+ * export or was written by a newer version of the app.
+ */
+export const parsePresetFile = (text: string, fallback: VisualConfig): VisualPreset[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("Preset file is not valid JSON");
+  }
+  if (!isPresetFile(file)) {
+    throw new Error("Not a Ferro preset file");
+  }
+  if (file.schemaVersion > PRESET_SCHEMA_VERSION) {
+    throw new Error(`Preset file uses schema v${file.schemaVersion}, this app supports up to v${PRESET_SCHEMA_VERSION}`);
+  }
+
+  let upgraded = file;
+  for (let v = file.schemaVersion; v < PRESET_SCHEMA_VERSION; v++) {
+    if (MIGRATIONS[v]) upgraded = MIGRATIONS[v](upgraded);
+  }
+
+  return upgraded.presets
+    .map((p) => normalizePreset(p, fallback))
+    .filter((p): p is VisualPreset => p !== null);
+};
+
+export const serializePresets = (presets: VisualPreset[]): string => {
+  const file: PresetFile = { schemaVersion: PRESET_SCHEMA_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+};
+
+export const loadPresets = (fallback: VisualConfig): VisualPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresetFile(stored, fallback) : [];
+  } catch (error) {
+    console.error("Failed to load presets:", error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: VisualPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+  } catch (error) {
+    console.error("Failed to save presets:", error);
+  }
+};
+
+export const createPreset = (name: string, prompt: string, config: VisualConfig): VisualPreset => ({
+  id: createId(),
+  name: name.trim() || "Untitled",
+  prompt,
+  config: { ...config },
+  createdAt: Date.now()
+});
+
+// Imported presets get fresh ids so they never overwrite existing ones.
+export const mergeImportedPresets = (existing: VisualPreset[], imported: VisualPreset[]): VisualPreset[] => [
+  ...existing,
+  ...imported.map((p) => ({ ...p, id: createId() }))
+];
@@ -0,0 +1,56 @@
+import { VisualConfig } from "../types";
+
+// Turn history for prompt driven looks. Every generation or refinement adds a
+// turn holding the resulting config; undo and redo move a cursor through the
+// turns. Adding a turn after undoing drops the turns that were undone.
+
+const MAX_TURNS = 50;
+
+// "start" holds the look that was on screen before the first prompt so the
+// first generation can be undone too
+export type PromptTurnKind = "start" | "generate" | "refine";
+
+export interface PromptTurn {
+  id: string;
+  kind: PromptTurnKind;
+  prompt: string;
+  config: VisualConfig;
+}
+
+export interface PromptHistory {
+  turns: PromptTurn[];
+  index: number; // Turn currently shown, -1 when empty
+}
+
+const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const EMPTY_HISTORY: PromptHistory = { turns: [], index: -1 };
+
+export const pushTurn = (history: PromptHistory, kind: PromptTurnKind, prompt: string, config: VisualConfig): PromptHistory => {
+  const turns = [...history.turns.slice(0, history.index + 1), { id: createId(), kind, prompt, config }].slice(-MAX_TURNS);
+  return { turns, index: turns.length - 1 };
+};
+
+export const canUndo = (history: PromptHistory) => history.index > 0;
+export const canRedo = (history: PromptHistory) => history.index < history.turns.length - 1;
+
+export const moveTo = (history: PromptHistory, index: number): PromptHistory => ({
+  ...history,
+  index: Math.max(0, Math.min(history.turns.length - 1, index))
+});
+
+export const currentTurn = (history: PromptHistory): PromptTurn | null => history.turns[history.index] ?? null;
+
+/**
+ * Prompts that led to the current turn, oldest first. Starts at the last
+ * fresh generation since earlier turns describe a look that was replaced.
+ */
+export const conversationPrompts = (history: PromptHistory): string[] => {
+  const visible = history.turns.slice(0, history.index + 1);
+  let start = 0;
+  visible.forEach((turn, i) => {
+    if (turn.kind !== "refine") start = i;
+  });
+  return visible.slice(start).filter((turn) => turn.kind !== "start").map((turn) => turn.prompt);
+};
@@ -0,0 +1,14 @@
+// Seedable pseudo random source (mulberry32). Used wherever a render must be
+// reproducible frame for frame, e.g. offline export.
+export type RandomSource = () => number;
+
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
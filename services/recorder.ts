@@ -0,0 +1,79 @@
+// Captures the visualizer canvas plus an audio stream into a WebM file using
+// MediaRecorder. Only the WebGL canvas is captured, so the HTML overlay never
+// shows up in the recording.
+
+export interface RecordingOptions {
+  canvas: HTMLCanvasElement;
+  audioStream?: MediaStream | null;
+  fps: number;
+  videoBitsPerSecond?: number;
+}
+
+export interface Recording {
+  mimeType: string;
+  startedAt: number;
+  stop: () => Promise<Blob>;
+}
+
+export interface RecordingResolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+// null dimensions record the canvas at its on-screen size; the fixed sizes
+// resize the canvas for the length of the take
+export const RECORDING_RESOLUTIONS: (RecordingResolution | { label: string; width: null; height: null })[] = [
+  { label: "Match canvas", width: null, height: null },
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "1440p", width: 2560, height: 1440 },
+  { label: "Square", width: 1080, height: 1080 },
+  { label: "Vertical", width: 1080, height: 1920 }
+];
+
+export const RECORDING_FRAME_RATES = [24, 30, 60];
+
+const MIME_CANDIDATES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm"
+];
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== "undefined" && typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+const pickMimeType = () =>
+  MIME_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "video/webm";
+
+export const startRecording = ({ canvas, audioStream, fps, videoBitsPerSecond = 12_000_000 }: RecordingOptions): Recording => {
+  const videoStream = canvas.captureStream(fps);
+  const tracks = [...videoStream.getVideoTracks(), ...(audioStream?.getAudioTracks() ?? [])];
+  const stream = new MediaStream(tracks);
+
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  // Flush a chunk every second so long takes do not hold one huge buffer
+  recorder.start(1000);
+
+  const stop = () =>
+    new Promise<Blob>((resolve, reject) => {
+      if (recorder.state === "inactive") {
+        resolve(new Blob(chunks, { type: mimeType }));
+        return;
+      }
+      recorder.onstop = () => {
+        // Only the canvas track belongs to us; the audio tracks keep playing
+        videoStream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(chunks, { type: mimeType }));
+      };
+      recorder.onerror = (e: Event & { error?: DOMException }) => reject(e.error ?? new Error("Recording failed"));
+      recorder.stop();
+    });
+
+  return { mimeType, startedAt: performance.now(), stop };
+};
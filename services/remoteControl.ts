@@ -0,0 +1,92 @@
+import { VisualConfig, GeometryType, BackgroundStyle } from "../types";
+import { MODE_IDS } from "../components/modes";
+import { CONFIG_RANGES, ColorField, NumericField, normalizeHexColor } from "./configValidation";
+import { RemoteArg, RemoteMessage } from "./remoteProtocol";
+
+// Remote control from show-control software. The dev-server bridge
+// (bridge/remoteBridge.ts) turns OSC over UDP and JSON over WebSocket into
+// RemoteMessages and forwards them to the app over a WebSocket.
+//
+// Address map (args in OSC order; JSON clients send {"address", "args"}):
+//
+//   /ferro/mode              mode id ("FERROFLUID", any case) or int index into the mode list
+//   /ferro/geometry          geometry ("SPHERE", any case) or int index into GeometryType
+//   /ferro/background        background ("TUNNEL", any case) or int index into BackgroundStyle
+//   /ferro/color/primary     "#rrggbb", or three floats r g b in [0, 1]
+//   /ferro/color/secondary   same as primary
+//   /ferro/color/background  same as primary
+//   /ferro/bloom             float, clamped to the bloom range
+//   /ferro/size              float, particle size
+//   /ferro/rotation          float, rotation speed
+//   /ferro/sensitivity       float, audio sensitivity
+//   /ferro/prompt            string, generates a new look like the prompt box
+//
+// Colors and floats apply instantly so faders track; mode, geometry and
+// background follow the current transition.
+
+export type RemoteEffect =
+  | { kind: "config"; patch: Partial<VisualConfig>; instant: boolean }
+  | { kind: "prompt"; prompt: string };
+
+const NUMERIC_ADDRESSES: Record<string, NumericField> = {
+  "/ferro/bloom": "bloomIntensity",
+  "/ferro/size": "particleSize",
+  "/ferro/rotation": "rotationSpeed",
+  "/ferro/sensitivity": "sensitivity"
+};
+
+const COLOR_ADDRESSES: Record<string, ColorField> = {
+  "/ferro/color/primary": "primaryColor",
+  "/ferro/color/secondary": "secondaryColor",
+  "/ferro/color/background": "backgroundColor"
+};
+
+const toByte = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255).toString(16).padStart(2, "0");
+
+const colorFromArgs = (args: RemoteArg[]): string | null => {
+  if (typeof args[0] === "string") return normalizeHexColor(args[0]);
+  if (args.length >= 3 && args.slice(0, 3).every((arg) => typeof arg === "number")) {
+    return `#${(args.slice(0, 3) as number[]).map(toByte).join("")}`;
+  }
+  return null;
+};
+
+// A name from `options` (case-insensitive) or an integer index into it
+const optionFromArg = <T extends string>(arg: RemoteArg | undefined, options: T[]): T | null => {
+  if (typeof arg === "number") return Number.isInteger(arg) && arg >= 0 && arg < options.length ? options[arg] : null;
+  if (typeof arg !== "string") return null;
+  return options.find((option) => option.toLowerCase() === arg.toLowerCase()) ?? null;
+};
+
+/**
+ * What a remote message asks for, or null for unknown addresses and bad args.
+ */
+export const interpretRemoteMessage = ({ address, args }: RemoteMessage): RemoteEffect | null => {
+  if (address === "/ferro/mode") {
+    const mode = optionFromArg(args[0], MODE_IDS);
+    return mode ? { kind: "config", patch: { mode }, instant: false } : null;
+  }
+  if (address === "/ferro/geometry") {
+    const geometryType = optionFromArg(args[0], Object.values(GeometryType));
+    return geometryType ? { kind: "config", patch: { geometryType }, instant: false } : null;
+  }
+  if (address === "/ferro/background") {
+    const background = optionFromArg(args[0], Object.values(BackgroundStyle));
+    return background ? { kind: "config", patch: { background }, instant: false } : null;
+  }
+  if (address === "/ferro/prompt") {
+    const prompt = typeof args[0] === "string" ? args[0].trim() : "";
+    return prompt ? { kind: "prompt", prompt } : null;
+  }
+  const colorField = COLOR_ADDRESSES[address];
+  if (colorField) {
+    const color = colorFromArgs(args);
+    return color ? { kind: "config", patch: { [colorField]: color }, instant: true } : null;
+  }
+  const numericField = NUMERIC_ADDRESSES[address];
+  if (numericField && typeof args[0] === "number" && Number.isFinite(args[0])) {
+    const { min, max } = CONFIG_RANGES[numericField];
+    return { kind: "config", patch: { [numericField]: Math.min(max, Math.max(min, args[0])) }, instant: true };
+  }
+  return null;
+};
@@ -0,0 +1,42 @@
+// Browser side of the remote-control bridge: a WebSocket to the dev server
+// that keeps reconnecting, so the bridge can be restarted mid-show.
+
+import { REMOTE_PATH, RemoteMessage, parseRemoteJson } from "./remoteProtocol";
+
+const RECONNECT_DELAY_MS = 2000;
+
+export interface RemoteConnection {
+  close: () => void;
+}
+
+export const connectRemote = (
+  onMessage: (message: RemoteMessage) => void,
+  onStatusChange: (isConnected: boolean) => void
+): RemoteConnection => {
+  const url = `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.host}${REMOTE_PATH}`;
+  let socket: WebSocket | null = null;
+  let retryTimer = 0;
+  let closed = false;
+
+  const open = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => onStatusChange(true);
+    socket.onmessage = (e: MessageEvent) => {
+      if (typeof e.data === "string") parseRemoteJson(e.data).forEach(onMessage);
+    };
+    socket.onclose = () => {
+      onStatusChange(false);
+      if (!closed) retryTimer = window.setTimeout(open, RECONNECT_DELAY_MS);
+    };
+  };
+
+  open();
+
+  return {
+    close: () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      socket?.close();
+    }
+  };
+};
@@ -0,0 +1,34 @@
+// Wire format shared by the remote-control bridge (Node) and the app. Kept
+// free of app imports so the dev-server plugin can load it on its own.
+
+export const REMOTE_PATH = "/ferro-remote";
+export const REMOTE_ADDRESS_PREFIX = "/ferro/";
+
+export type RemoteArg = string | number | boolean;
+
+export interface RemoteMessage {
+  address: string;
+  args: RemoteArg[];
+}
+
+const isArg = (value: unknown): value is RemoteArg => ["string", "number", "boolean"].includes(typeof value);
+
+/**
+ * Accepts a single {address, args} object or an array of them; anything else
+ * yields no messages. `args` may be omitted or a single value.
+ */
+export const parseRemoteJson = (text: string): RemoteMessage[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  const items: unknown[] = Array.isArray(raw) ? raw : [raw];
+  return items.flatMap((item): RemoteMessage[] => {
+    if (!item || typeof item !== "object") return [];
+    const { address, args = [] } = item as { address?: unknown; args?: unknown };
+    const list: unknown[] = Array.isArray(args) ? args : [args];
+    return typeof address === "string" && list.every(isArg) ? [{ address, args: list }] : [];
+  });
+};
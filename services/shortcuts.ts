@@ -0,0 +1,41 @@
+// Global keyboard shortcuts. Keys are ignored while typing in a form field so
+// the prompt box keeps working.
+
+export type ShortcutAction =
+  | "nextMode"
+  | "previousMode"
+  | "nextGeometry"
+  | "previousGeometry"
+  | "toggleUi"
+  | "toggleFullscreen"
+  | "toggleControls";
+
+export interface Shortcut {
+  keys: string[]; // KeyboardEvent.key values
+  label: string;  // Shown in the control panel
+  action: ShortcutAction;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { keys: ["ArrowRight"], label: "→", action: "nextMode" },
+  { keys: ["ArrowLeft"], label: "←", action: "previousMode" },
+  { keys: ["ArrowUp"], label: "↑", action: "nextGeometry" },
+  { keys: ["ArrowDown"], label: "↓", action: "previousGeometry" },
+  { keys: ["h", "H"], label: "H", action: "toggleUi" },
+  { keys: ["f", "F"], label: "F", action: "toggleFullscreen" },
+  { keys: ["c", "C"], label: "C", action: "toggleControls" }
+];
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export const shortcutFor = (e: KeyboardEvent): ShortcutAction | null => {
+  if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return null;
+  return SHORTCUTS.find((shortcut) => shortcut.keys.includes(e.key))?.action ?? null;
+};
+
+export const toggleFullscreen = async () => {
+  if (document.fullscreenElement) await document.exitFullscreen();
+  else await document.documentElement.requestFullscreen();
+};
@@ -0,0 +1,42 @@
+// Splits a source into left and right channels and runs one AnalyserNode per
+// side, alongside the main (mixed) analyser.
+
+import { StereoInput } from './audioAnalyzer';
+
+export interface StereoTap {
+  input: AudioNode; // Connect sources here
+  read: () => StereoInput;
+}
+
+export const createStereoTap = (ctx: AudioContext, fftSize: number, smoothing: number): StereoTap => {
+  // A splitter always interprets its input as discrete channels, so a mono
+  // source (most microphones) would leave the right side silent. This gain
+  // upmixes to stereo with the speaker rules first.
+  const upmix = ctx.createGain();
+  upmix.channelCount = 2;
+  upmix.channelCountMode = 'explicit';
+  upmix.channelInterpretation = 'speakers';
+
+  const splitter = ctx.createChannelSplitter(2);
+  upmix.connect(splitter);
+
+  const analysers = [0, 1].map((output) => {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = fftSize;
+    analyser.smoothingTimeConstant = smoothing;
+    splitter.connect(analyser, output);
+    return analyser;
+  });
+
+  const readChannel = (analyser: AnalyserNode) => {
+    const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(frequencyData);
+    const timeDomainData = new Uint8Array(analyser.fftSize);
+    analyser.getByteTimeDomainData(timeDomainData);
+    return { frequencyData, timeDomainData };
+  };
+
+  const read = () => ({ left: readChannel(analysers[0]), right: readChannel(analysers[1]) });
+
+  return { input: upmix, read };
+};
@@ -0,0 +1,73 @@
+// Plays files through a shared output bus. Every track gets a fresh <audio>
+// element (an element can only ever feed one MediaElementSource), so a
+// crossfade is simply the outgoing element's gain ramping down while the new
+// one ramps up.
+
+export interface TrackPlayer {
+  output: AudioNode; // Connect to the analysers, speakers and recorder
+  start: (file: File, crossfadeSeconds?: number) => Promise<HTMLAudioElement>;
+  stop: () => void;
+  current: () => HTMLAudioElement | null;
+}
+
+interface Deck {
+  element: HTMLAudioElement;
+  url: string;
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+}
+
+export const createTrackPlayer = (ctx: AudioContext): TrackPlayer => {
+  const output = ctx.createGain();
+  let current: Deck | null = null;
+
+  const retire = (deck: Deck, fadeSeconds: number) => {
+    const release = () => {
+      deck.element.pause();
+      deck.element.onended = null;
+      deck.element.ontimeupdate = null;
+      deck.source.disconnect();
+      deck.gain.disconnect();
+      URL.revokeObjectURL(deck.url);
+    };
+    if (fadeSeconds <= 0) {
+      release();
+      return;
+    }
+    const now = ctx.currentTime;
+    deck.gain.gain.cancelScheduledValues(now);
+    deck.gain.gain.setValueAtTime(deck.gain.gain.value, now);
+    deck.gain.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+    window.setTimeout(release, fadeSeconds * 1000 + 50);
+  };
+
+  const start = async (file: File, crossfadeSeconds = 0) => {
+    const url = URL.createObjectURL(file);
+    const element = new Audio(url);
+    const source = ctx.createMediaElementSource(element);
+    const gain = ctx.createGain();
+    source.connect(gain);
+    gain.connect(output);
+
+    // Only fade in when there is something to fade from
+    const fade = current && !current.element.paused ? crossfadeSeconds : 0;
+    if (fade > 0) {
+      const now = ctx.currentTime;
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(1, now + fade);
+    }
+
+    const previous = current;
+    current = { element, url, source, gain };
+    if (previous) retire(previous, fade);
+    await element.play();
+    return element;
+  };
+
+  const stop = () => {
+    if (current) retire(current, 0);
+    current = null;
+  };
+
+  return { output, start, stop, current: () => current?.element ?? null };
+};
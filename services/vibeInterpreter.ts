@@ -0,0 +1,240 @@
+import { VisualConfig, GeometryType, BackgroundStyle, EffectConfig, EffectType } from "../types";
+import { BuiltInBackground } from "./backgroundShaders";
+import { MODES, getMode } from "../components/modes";
+import { EFFECTS } from "../components/effects";
+import { CONFIG_RANGES, NumericField } from "./configValidation";
+import { hexToHsl, hslToHex } from "./color";
+
+// Rule based stand-in for the language model, used when the API is missing or
+// fails. It scores the prompt against the same mode and geometry guidance the
+// model receives, picks colors from color words and moods, and scales motion
+// by how energetic the prompt sounds. No network involved.
+
+type Lexicon<T extends string> = Record<T, string[]>;
+
+// Mode keywords and palettes come from the mode registry
+const MODE_WORDS: Lexicon<string> = Object.fromEntries(MODES.map((mode) => [mode.id, mode.keywords]));
+
+const GEOMETRY_WORDS: Lexicon<GeometryType> = {
+  [GeometryType.Box]: ["techno", "glitch", "digital", "industrial", "pixel", "harsh", "cube", "block", "blocky"],
+  [GeometryType.Sphere]: ["ambient", "lofi", "lo-fi", "soft", "organic", "smooth", "bubble", "bubbles", "clouds", "round"],
+  [GeometryType.Tetrahedron]: ["aggressive", "rock", "sharp", "metal", "punk", "angry", "energy", "energetic", "hard"],
+  [GeometryType.Octahedron]: ["crystal", "crystalline", "ethereal", "pop", "diamond", "ice", "glass", "shiny"],
+  [GeometryType.Torus]: ["psychedelic", "trance", "trippy", "ring", "rings", "hypnotic", "loop", "spiral"],
+  [GeometryType.Cone]: ["driving", "fast", "speed", "dnb", "jungle", "racing", "pointy", "rush"]
+};
+
+const BACKGROUND_WORDS: Lexicon<BuiltInBackground> = {
+  [BackgroundStyle.Aurora]: ["aurora", "northern lights", "dreamy", "flowing", "waves", "calm"],
+  [BackgroundStyle.Plasma]: ["plasma", "lava lamp", "retro", "groovy", "liquid", "seventies", "70s"],
+  [BackgroundStyle.Starfield]: ["space", "stars", "starry", "galaxy", "cosmic", "universe", "night sky"],
+  [BackgroundStyle.Tunnel]: ["tunnel", "warp", "vortex", "hyperspace", "wormhole", "portal"]
+};
+
+// Effect keywords come from the effect registry
+const EFFECT_WORDS: Lexicon<EffectType> = Object.fromEntries(EFFECTS.map((effect) => [effect.type, effect.keywords])) as Lexicon<EffectType>;
+const MAX_INTERPRETED_EFFECTS = 3;
+// Words that clear the whole effect chain, or drop / tone down named effects
+const CLEAN_WORDS = ["clean", "no effects", "without effects", "remove effects", "plain"];
+const REMOVE_WORDS = ["no", "without", "remove", "drop"];
+
+// Hue (0..1), saturation and lightness per color word
+const COLOR_WORDS: Record<string, [number, number, number]> = {
+  red: [0.0, 0.9, 0.5], crimson: [0.97, 0.85, 0.45], orange: [0.07, 0.95, 0.55], amber: [0.1, 0.95, 0.5],
+  yellow: [0.15, 0.95, 0.55], gold: [0.12, 0.85, 0.5], golden: [0.12, 0.85, 0.5], lime: [0.25, 0.9, 0.5],
+  green: [0.33, 0.8, 0.45], emerald: [0.4, 0.8, 0.4], teal: [0.47, 0.8, 0.4], cyan: [0.5, 1.0, 0.5],
+  aqua: [0.5, 0.9, 0.55], turquoise: [0.48, 0.8, 0.5], blue: [0.6, 0.9, 0.5], navy: [0.63, 0.8, 0.3],
+  indigo: [0.7, 0.8, 0.45], purple: [0.77, 0.8, 0.5], violet: [0.75, 0.85, 0.6], magenta: [0.83, 1.0, 0.5],
+  pink: [0.92, 0.9, 0.65], rose: [0.95, 0.8, 0.6], white: [0, 0, 0.95], silver: [0.6, 0.1, 0.75],
+  grey: [0, 0, 0.55], gray: [0, 0, 0.55]
+};
+
+// Mood words that imply a pair of colors
+const PALETTE_WORDS: Record<string, [string, string]> = {
+  fire: ["orange", "red"], flame: ["orange", "red"], lava: ["red", "orange"], sunset: ["orange", "pink"],
+  ocean: ["blue", "teal"], underwater: ["teal", "blue"], forest: ["green", "gold"], jungle: ["green", "lime"],
+  ice: ["cyan", "white"], frozen: ["cyan", "silver"], neon: ["magenta", "cyan"], cyberpunk: ["magenta", "cyan"],
+  night: ["indigo", "violet"], space: ["violet", "blue"], toxic: ["lime", "purple"], royal: ["purple", "gold"],
+  candy: ["pink", "aqua"], vaporwave: ["pink", "cyan"], clouds: ["white", "pink"], gold: ["gold", "white"]
+};
+
+const INTENSE_WORDS = ["intense", "aggressive", "heavy", "hard", "loud", "fast", "energetic", "energy", "wild", "angry", "hyper", "explosive", "dubstep", "hardcore", "punk", "drop", "rave"];
+const CALM_WORDS = ["calm", "chill", "soft", "slow", "gentle", "quiet", "ambient", "relax", "sleep", "peaceful", "mellow", "dreamy", "lofi", "lo-fi"];
+const DARK_WORDS = ["dark", "darker", "night", "gloomy", "moody", "shadow", "noir", "deep"];
+const BRIGHT_WORDS = ["bright", "brighter", "glow", "glowing", "shiny", "radiant", "luminous", "neon", "sparkle"];
+
+// Relative adjustments used when refining an existing look
+const ADJUSTMENTS: { words: string[]; field: NumericField; factor: number }[] = [
+  { words: ["slower", "slow", "calmer", "still"], field: "rotationSpeed", factor: 0.6 },
+  { words: ["faster", "fast", "quicker", "spin"], field: "rotationSpeed", factor: 1.5 },
+  { words: ["calmer", "subtle", "subtler", "less reactive"], field: "sensitivity", factor: 0.75 },
+  { words: ["intense", "punchier", "reactive", "wilder", "harder"], field: "sensitivity", factor: 1.3 },
+  { words: ["bigger", "larger", "chunkier"], field: "particleSize", factor: 1.4 },
+  { words: ["smaller", "tiny", "finer"], field: "particleSize", factor: 0.7 },
+  { words: ["glow", "brighter", "bloom", "shinier"], field: "bloomIntensity", factor: 1.4 },
+  { words: ["darker", "dimmer", "less glow"], field: "bloomIntensity", factor: 0.7 }
+];
+
+const tokenize = (prompt: string): string[] => prompt.toLowerCase().match(/[a-z&-]+/g) ?? [];
+
+const hasPhrase = (text: string, tokens: string[], phrase: string) =>
+  phrase.includes(" ") ? text.includes(phrase) : tokens.includes(phrase);
+
+const countMatches = (text: string, tokens: string[], words: string[]) =>
+  words.reduce((sum, word) => sum + (hasPhrase(text, tokens, word) ? 1 : 0), 0);
+
+// Highest scoring key, or null when nothing matched
+const bestMatch = <T extends string>(text: string, tokens: string[], lexicon: Lexicon<T>): T | null => {
+  let best: T | null = null;
+  let bestScore = 0;
+  for (const key of Object.keys(lexicon) as T[]) {
+    const score = countMatches(text, tokens, lexicon[key]);
+    if (score > bestScore) {
+      best = key;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Every effect the text mentions, in chain order
+const effectsIn = (text: string, tokens: string[]) =>
+  (Object.keys(EFFECT_WORDS) as EffectType[]).filter((type) => countMatches(text, tokens, EFFECT_WORDS[type]) > 0);
+
+const clampUnit = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 100) / 100;
+
+const clampField = (field: NumericField, value: number) =>
+  Math.round(Math.max(CONFIG_RANGES[field].min, Math.min(CONFIG_RANGES[field].max, value)) * 100) / 100;
+
+const colorHex = (word: string) => hslToHex(...COLOR_WORDS[word]);
+
+// Color words in prompt order, with palette words expanded
+const colorsIn = (tokens: string[]) =>
+  tokens.flatMap((token) => (COLOR_WORDS[token] ? [token] : PALETTE_WORDS[token] ?? []));
+
+const darkTint = (hex: string, lightness: number) => {
+  const [h, s] = hexToHsl(hex);
+  return hslToHex(h, Math.min(s, 0.6), lightness);
+};
+
+/**
+ * Builds a config from scratch. Fields the prompt says nothing about come
+ * from `fallback`.
+ */
+export const interpretVibe = (prompt: string, fallback: VisualConfig): VisualConfig => {
+  const text = prompt.toLowerCase();
+  const tokens = tokenize(prompt);
+  const mode = bestMatch(text, tokens, MODE_WORDS) ?? fallback.mode;
+  const plugin = getMode(mode);
+  const geometryType = bestMatch(text, tokens, GEOMETRY_WORDS) ?? plugin?.preferredGeometry ?? fallback.geometryType;
+  const background = bestMatch(text, tokens, BACKGROUND_WORDS) ?? fallback.background;
+
+  const [first, second] = colorsIn(tokens);
+  const palette = plugin?.palette ?? [fallback.primaryColor, fallback.secondaryColor];
+  const primaryColor = first ? colorHex(first) : palette[0];
+  const secondaryColor = second ? colorHex(second) : palette[1];
+
+  // -1 (calm) .. 1 (intense)
+  const energy = Math.max(-1, Math.min(1, (countMatches(text, tokens, INTENSE_WORDS) - countMatches(text, tokens, CALM_WORDS)) / 2));
+  const brightness = Math.max(-1, Math.min(1, (countMatches(text, tokens, BRIGHT_WORDS) - countMatches(text, tokens, DARK_WORDS)) / 2));
+
+  // Intense prompts get stronger, more reactive effects
+  const mentioned = effectsIn(text, tokens).slice(0, MAX_INTERPRETED_EFFECTS);
+  const effects: EffectConfig[] = CLEAN_WORDS.some((word) => hasPhrase(text, tokens, word))
+    ? []
+    : mentioned.length
+      ? mentioned.map((type) => ({ type, intensity: clampUnit(0.45 + energy * 0.2), reactivity: clampUnit(0.5 + energy * 0.3) }))
+      : fallback.effects;
+
+  return {
+    mode,
+    geometryType,
+    background,
+    primaryColor,
+    secondaryColor,
+    backgroundColor: darkTint(primaryColor, 0.08 + brightness * 0.04),
+    particleSize: clampField("particleSize", 0.6 - energy * 0.15),
+    rotationSpeed: clampField("rotationSpeed", 0.6 + energy * 0.5),
+    sensitivity: clampField("sensitivity", 1.5 + energy * 0.8),
+    bloomIntensity: clampField("bloomIntensity", 1.2 + brightness * 0.8 + Math.max(0, energy) * 0.4),
+    effects,
+    description: `Offline interpretation of "${prompt}"`
+  };
+};
+
+/**
+ * Applies a follow-up instruction to `current`: relative words ("slower",
+ * "darker", "more blue") nudge the existing values, explicit mode, geometry or
+ * background words switch them and effect words add, strengthen ("more
+ * grain"), weaken ("less glitch") or remove ("no trails") effects. Anything
+ * not mentioned stays as it is.
+ */
+export const refineVibe = (current: VisualConfig, instruction: string): VisualConfig => {
+  const text = instruction.toLowerCase();
+  const tokens = tokenize(instruction);
+  const next: VisualConfig = { ...current, description: `${current.description} · ${instruction}` };
+
+  next.mode = bestMatch(text, tokens, MODE_WORDS) ?? current.mode;
+  next.geometryType = bestMatch(text, tokens, GEOMETRY_WORDS) ?? current.geometryType;
+  next.background = bestMatch(text, tokens, BACKGROUND_WORDS) ?? current.background;
+
+  if (CLEAN_WORDS.some((word) => hasPhrase(text, tokens, word))) {
+    next.effects = [];
+  } else {
+    // Clause by clause, so "no trails, more grain" removes one and boosts the other
+    for (const clause of text.split(/[,;]|\band\b|\bbut\b/)) {
+      const clauseTokens = tokenize(clause);
+      const removing = REMOVE_WORDS.some((word) => clauseTokens.includes(word));
+      const weakening = clauseTokens.includes("less");
+      for (const type of effectsIn(clause, clauseTokens)) {
+        const existing = next.effects.find((effect) => effect.type === type);
+        if (removing) {
+          next.effects = next.effects.filter((effect) => effect.type !== type);
+        } else if (existing) {
+          const factor = weakening ? 0.6 : 1.4;
+          next.effects = next.effects.map((effect) =>
+            effect === existing ? { ...effect, intensity: clampUnit(effect.intensity * factor) } : effect
+          );
+        } else if (!weakening) {
+          next.effects = [...next.effects, { type, intensity: 0.5, reactivity: 0.5 }];
+        }
+      }
+    }
+  }
+
+  for (const { words, field, factor } of ADJUSTMENTS) {
+    if (words.some((word) => hasPhrase(text, tokens, word))) next[field] = clampField(field, next[field] * factor);
+  }
+
+  // Lightness of the whole look
+  const shade = countMatches(text, tokens, ["brighter", "lighter"]) - countMatches(text, tokens, ["darker", "dimmer"]);
+  if (shade !== 0) {
+    const shift = (hex: string, amount: number) => {
+      const [h, s, l] = hexToHsl(hex);
+      return hslToHex(h, s, Math.max(0.03, Math.min(0.95, l + amount)));
+    };
+    next.primaryColor = shift(next.primaryColor, shade * 0.1);
+    next.secondaryColor = shift(next.secondaryColor, shade * 0.1);
+    next.backgroundColor = shift(next.backgroundColor, shade * 0.04);
+  }
+
+  // "more blue" shifts the accent colors towards blue; a bare color word
+  // replaces the primary color
+  const [color] = colorsIn(tokens);
+  if (color) {
+    const [targetHue, targetSat, targetLight] = COLOR_WORDS[color];
+    if (tokens.includes("more")) {
+      const pull = (hex: string) => {
+        const [h, s, l] = hexToHsl(hex);
+        const dh = ((targetHue - h + 1.5) % 1) - 0.5; // Shortest way round the hue circle
+        return hslToHex(h + dh * 0.5, (s + targetSat) / 2, (l + targetLight) / 2);
+      };
+      next.primaryColor = pull(next.primaryColor);
+      next.secondaryColor = pull(next.secondaryColor);
+    } else {
+      next.primaryColor = colorHex(color);
+    }
+  }
+
+  return next;
+};
@@ -0,0 +1,141 @@
+// Minimal uncompressed (STORE) zip writer. PNG frames are already
+// compressed, so deflating them again would cost time for almost no gain.
+// All entries carry a fixed timestamp so identical input gives an identical
+// archive.
+//
+// Entries are appended one at a time as Blobs: only the small headers are
+// built in script memory, and the browser can keep the frame data on disk
+// until the final archive Blob is downloaded. Archives past 4 GB or 65535
+// entries get ZIP64 records.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01 00:00, the earliest DOS date
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+// Largest values the classic records can hold; at or above them the field
+// is set to all ones and the real value goes into a ZIP64 record
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+export interface ZipWriter {
+  add: (name: string, data: Blob) => Promise<void>;
+  // The finished archive; the writer must not be used afterwards
+  finish: () => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  return {
+    add: async (entryName, data) => {
+      const name = encoder.encode(entryName);
+      const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+      const size = data.size;
+      if (size >= MAX_UINT32) throw new Error(`Zip entry ${entryName} is too large`);
+      const zip64 = offset >= MAX_UINT32;
+
+      const local = new Uint8Array(30 + name.length);
+      const lv = new DataView(local.buffer);
+      lv.setUint32(0, 0x04034b50, true);
+      lv.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true); // version needed
+      lv.setUint16(6, 0, true);      // flags
+      lv.setUint16(8, 0, true);      // method: store
+      lv.setUint16(10, DOS_TIME, true);
+      lv.setUint16(12, DOS_DATE, true);
+      lv.setUint32(14, crc, true);
+      lv.setUint32(18, size, true);
+      lv.setUint32(22, size, true);
+      lv.setUint16(26, name.length, true);
+      lv.setUint16(28, 0, true);
+      local.set(name, 30);
+
+      // Past 4 GB the local header offset moves into a ZIP64 extra field
+      const extraLength = zip64 ? 12 : 0;
+      const header = new Uint8Array(46 + name.length + extraLength);
+      const cv = new DataView(header.buffer);
+      cv.setUint32(0, 0x02014b50, true);
+      cv.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true); // version made by
+      cv.setUint16(6, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true); // version needed
+      cv.setUint16(8, 0, true);
+      cv.setUint16(10, 0, true);
+      cv.setUint16(12, DOS_TIME, true);
+      cv.setUint16(14, DOS_DATE, true);
+      cv.setUint32(16, crc, true);
+      cv.setUint32(20, size, true);
+      cv.setUint32(24, size, true);
+      cv.setUint16(28, name.length, true);
+      cv.setUint16(30, extraLength, true);
+      cv.setUint32(42, zip64 ? MAX_UINT32 : offset, true); // local header offset
+      header.set(name, 46);
+      if (zip64) {
+        const extra = 46 + name.length;
+        cv.setUint16(extra, 0x0001, true); // ZIP64 extended information
+        cv.setUint16(extra + 2, 8, true);
+        cv.setBigUint64(extra + 4, BigInt(offset), true);
+      }
+
+      parts.push(local, data);
+      central.push(header);
+      offset += local.length + size;
+    },
+    finish: () => {
+      const count = central.length;
+      const centralSize = central.reduce((sum, h) => sum + h.length, 0);
+      const zip64 = count >= MAX_UINT16 || offset >= MAX_UINT32 || centralSize >= MAX_UINT32;
+      const records: Uint8Array[] = [];
+
+      if (zip64) {
+        const record = new Uint8Array(56);
+        const rv = new DataView(record.buffer);
+        rv.setUint32(0, 0x06064b50, true);
+        rv.setBigUint64(4, BigInt(56 - 12), true); // size of the rest of the record
+        rv.setUint16(12, VERSION_ZIP64, true);     // version made by
+        rv.setUint16(14, VERSION_ZIP64, true);     // version needed
+        rv.setBigUint64(24, BigInt(count), true);  // entries on this disk
+        rv.setBigUint64(32, BigInt(count), true);
+        rv.setBigUint64(40, BigInt(centralSize), true);
+        rv.setBigUint64(48, BigInt(offset), true);
+
+        const locator = new Uint8Array(20);
+        const xv = new DataView(locator.buffer);
+        xv.setUint32(0, 0x07064b50, true);
+        xv.setBigUint64(8, BigInt(offset + centralSize), true); // where the ZIP64 record starts
+        xv.setUint32(16, 1, true);                               // total disks
+        records.push(record, locator);
+      }
+
+      const end = new Uint8Array(22);
+      const ev = new DataView(end.buffer);
+      ev.setUint32(0, 0x06054b50, true);
+      ev.setUint16(8, Math.min(count, MAX_UINT16), true);
+      ev.setUint16(10, Math.min(count, MAX_UINT16), true);
+      ev.setUint32(12, Math.min(centralSize, MAX_UINT32), true);
+      ev.setUint32(16, Math.min(offset, MAX_UINT32), true);
+      records.push(end);
+
+      return new Blob([...parts, ...central, ...records], { type: "application/zip" });
+    }
+  };
+};
@@ -1,10 +1,15 @@
+// Ids of the built-in modes. Modes themselves live in components/modes and
+// any registered id is a valid VisualConfig.mode.
 export enum VisualizerMode {
   Orbit = 'ORBIT',
   Wave = 'WAVE',
   Grid = 'GRID',
   Chaos = 'CHAOS',
   Ferrofluid = 'FERROFLUID',
-  Surface = 'SURFACE'
+  Surface = 'SURFACE',
+  Oscilloscope = 'OSCILLOSCOPE',
+  SpectrumRing = 'SPECTRUM_RING',
+  Spectrogram = 'SPECTROGRAM'
 }
 
 export enum GeometryType {
@@ -16,23 +21,72 @@ export enum GeometryType {
   Cone = 'CONE'
 }
 
+// Background shader variants; CUSTOM runs the source from the shader editor
+export enum BackgroundStyle {
+  Aurora = 'AURORA',
+  Plasma = 'PLASMA',
+  Starfield = 'STARFIELD',
+  Tunnel = 'TUNNEL',
+  Custom = 'CUSTOM'
+}
+
+// Post-processing effects; each one lives in components/effects
+export enum EffectType {
+  Afterimage = 'AFTERIMAGE',
+  ChromaticAberration = 'CHROMATIC_ABERRATION',
+  RgbShift = 'RGB_SHIFT',
+  FilmGrain = 'FILM_GRAIN',
+  Kaleidoscope = 'KALEIDOSCOPE',
+  Glitch = 'GLITCH',
+  Vignette = 'VIGNETTE'
+}
+
+export interface EffectConfig {
+  type: EffectType;
+  intensity: number;  // 0..1, 0 switches the effect off
+  reactivity: number; // 0..1, how much the audio drives it
+}
+
 export interface VisualConfig {
-  mode: VisualizerMode;
+  mode: string; // Id of a registered mode
   geometryType: GeometryType; // Shape of the particles
+  background: BackgroundStyle;
   primaryColor: string;
   secondaryColor: string;
   backgroundColor: string;
   particleSize: number;
   rotationSpeed: number;
-  sensitivity: number; // 0.1 to 3.0
+  sensitivity: number; // 0.5 to 3.0, see CONFIG_RANGES
   bloomIntensity: number;
+  effects: EffectConfig[]; // Applied in order after bloom, each type at most once
   description: string;
 }
 
+// Analysis of one side of a stereo signal
+export interface ChannelData {
+  frequencyData: Uint8Array;
+  bass: number;
+  mid: number;
+  treble: number;
+  bands: Float32Array; // Smoothed band levels, 0..1
+}
+
 export interface AudioData {
   frequencyData: Uint8Array;
+  timeDomainData: Uint8Array; // Raw waveform, 128 = silence (getByteTimeDomainData)
   overallAmplitude: number;
   bass: number;
   mid: number;
   treble: number;
+  bands: Float32Array;     // Smoothed log/Mel band levels, 0..1
+  bandPeaks: Float32Array; // Peak-hold value per band, 0..1
+  onset: boolean;    // Spectral-flux onset detected this frame
+  beat: boolean;     // Tempo grid crossed a beat this frame
+  beatPhase: number; // 0..1 position inside the current beat
+  bpm: number;       // Estimated tempo, 0 while unknown
+  left: ChannelData;  // Copies of the mix for mono sources
+  right: ChannelData;
+  balance: number;     // Loudness pan, -1 left .. 1 right
+  correlation: number; // Channel correlation, 1 mono .. -1 out of phase
+  width: number;       // Side share of the energy: 0 mono, 0.5 unrelated channels, 1 out of phase
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { DEFAULT_OSC_PORT, ferroRemoteBridge } from './bridge/remoteBridge';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ferroRemoteBridge({
+        oscPort: Number(env.FERRO_OSC_PORT || DEFAULT_OSC_PORT),
+        allowLan: env.FERRO_REMOTE_LAN === '1'
+      })],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so test runs never start the remote bridge
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**']
+  }
+});